@@ -14,9 +14,20 @@ const configureCors = () => {
 
     methods: ["GET", "POST", "PUT", "PATCH", "DELETE"],
 
-    allowedHeaders: ["Content-Type", "Authorization", "Accept-Version"],
-
-    exposedHeaders: ["Content-Range", "X-Content-Range"],
+    allowedHeaders: [
+      "Content-Type",
+      "Authorization",
+      "Accept-Version",
+      "Idempotency-Key",
+      "If-Match",
+    ],
+
+    exposedHeaders: [
+      "Content-Range",
+      "X-Content-Range",
+      "Idempotent-Replayed",
+      "ETag",
+    ],
 
     credentials: true,
 
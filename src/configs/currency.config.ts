@@ -0,0 +1,30 @@
+import logger from "../utils/logger";
+
+// Currency Variant.price is stored in
+export const BASE_CURRENCY = (process.env.BASE_CURRENCY || "USD").toUpperCase();
+
+/**
+ * Conversion rates from the base currency, used when a variant has no price
+ * on the requested price list. Configured as JSON, e.g.
+ * CURRENCY_RATES={"EUR":0.92,"GBP":0.79}
+ */
+const loadRates = (): Record<string, number> => {
+  const rates: Record<string, number> = { [BASE_CURRENCY]: 1 };
+  if (!process.env.CURRENCY_RATES) return rates;
+
+  try {
+    const parsed = JSON.parse(process.env.CURRENCY_RATES);
+    for (const [currency, rate] of Object.entries(parsed)) {
+      if (typeof rate === "number" && rate > 0) {
+        rates[currency.toUpperCase()] = rate;
+      }
+    }
+  } catch (error: any) {
+    logger.error(
+      `Invalid CURRENCY_RATES, only ${BASE_CURRENCY} available: ${error.message}`
+    );
+  }
+  return rates;
+};
+
+export const CURRENCY_RATES = loadRates();
@@ -0,0 +1,65 @@
+import { NextFunction, Response } from "express";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import AuditLog from "../models/auditLog.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  getAuditLogByIdSchema,
+  getAuditLogsSchema,
+} from "../validations/auditLog.validation";
+
+// List audit entries (newest first) by actor, variant, product, action, date
+export const getAuditLogs = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getAuditLogsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { page, limit, actor, variantId, productId, action, from, to } =
+      req.validated.query;
+
+    const query: any = {};
+    if (actor) query["actor.userId"] = actor;
+    if (variantId) query.variantIds = variantId;
+    if (productId) query.productIds = productId;
+    if (action) query.action = action;
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = from;
+      if (to) query.createdAt.$lte = to;
+    }
+
+    const skip = (page - 1) * limit;
+    const auditLogs = await AuditLog.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(limit);
+    const total = await AuditLog.countDocuments(query);
+
+    res.status(200).json({
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      auditLogs,
+    });
+  }
+);
+
+// Get audit entry by ID
+export const getAuditLogById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getAuditLogByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { auditLogId } = req.validated.params;
+
+    const auditLog = await AuditLog.findById(auditLogId);
+    if (!auditLog) return next(new AppError("Audit log not found", 404));
+
+    res.status(200).json({ auditLog });
+  }
+);
@@ -0,0 +1,216 @@
+import { NextFunction, Response } from "express";
+import { startSession } from "mongoose";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import Variant from "../models/variant.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  createBundleSchema,
+  sellBundleSchema,
+  updateBundleSchema,
+} from "../validations/variant.validation";
+import {
+  bundlePrice,
+  loadBundleComponents,
+  sellBundle,
+} from "../services/bundle.service";
+import {
+  priceStateOf,
+  recordPriceChanges,
+} from "../services/priceHistory.service";
+import { refreshBundleStock, toStockActor } from "../services/stock.service";
+import { enqueueEvents } from "../services/outbox.service";
+import { variantCreatedEvents } from "../services/variantEvents.service";
+import { presentVariant } from "../services/variantView.service";
+import { getProductClient } from "../services/productClient.service";
+import { computeDiscountPrice } from "../utils/pricing";
+
+// Create bundle => a variant made of other variants, with no stock of its own
+export const createBundle = catchAsync(
+  async (
+    req: ValidatedRequest<typeof createBundleSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productId } = req.validated.params;
+    const { size, components, pricing } = req.validated.body;
+
+    // check product exists or not (404 if it does not)
+    await getProductClient().assertProductExists(productId);
+
+    const existingVariant = await Variant.findOne({ productId, size });
+    if (existingVariant)
+      return next(new AppError("Variant already exists", 400));
+
+    const componentById = await loadBundleComponents(components);
+    const price = bundlePrice(
+      { discountPercent: 0, ...pricing },
+      components,
+      new Map([...componentById].map(([id, v]) => [id, v.price]))
+    );
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      const [created] = await Variant.create(
+        [
+          {
+            productId,
+            size,
+            price,
+            stock: 0,
+            kind: "bundle",
+            components,
+            bundlePricing: {
+              mode: pricing.mode,
+              discountPercent:
+                pricing.mode === "components" ? pricing.discountPercent : 0,
+            },
+            createdBy: req.user?.userId,
+          },
+        ],
+        { session }
+      );
+      await enqueueEvents(variantCreatedEvents([created]), session);
+
+      await refreshBundleStock(
+        components.map((c) => c.variantId),
+        session
+      );
+      await recordPriceChanges(
+        [{ variantId: created._id, after: priceStateOf(created) }],
+        { source: "create", actor: toStockActor(req.user) },
+        session
+      );
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
+    }
+
+    const bundle = await Variant.findOne({ productId, size });
+    res.status(201).json({
+      message: "Bundle created successfully",
+      variant: await presentVariant(bundle!),
+    });
+  }
+);
+
+// Update bundle => components and / or pricing
+export const updateBundle = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updateBundleSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { components, pricing } = req.validated.body;
+
+    const bundle = await Variant.findById(variantId);
+    if (!bundle) return next(new AppError("Variant not found", 404));
+    if (bundle.kind !== "bundle") {
+      return next(new AppError("Variant is not a bundle", 400));
+    }
+
+    const nextComponents = components || bundle.components!;
+    const nextPricing = pricing
+      ? {
+          mode: pricing.mode,
+          discountPercent:
+            pricing.mode === "components" ? pricing.discountPercent : 0,
+        }
+      : bundle.bundlePricing!;
+
+    const componentById = await loadBundleComponents(nextComponents, bundle._id);
+    const price = bundlePrice(
+      {
+        ...nextPricing,
+        price: pricing?.mode === "fixed" ? pricing.price : bundle.price,
+      },
+      nextComponents,
+      new Map([...componentById].map(([id, v]) => [id, v.price]))
+    );
+
+    const before = priceStateOf(bundle);
+    const previousComponentIds = bundle.components!.map((c) => c.variantId);
+
+    bundle.set({ components: nextComponents, bundlePricing: nextPricing });
+    bundle.price = price;
+    bundle.discountPrice = computeDiscountPrice(price, bundle.discountPercent || 0);
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      await bundle.save({ session });
+      await refreshBundleStock(
+        [...previousComponentIds, ...nextComponents.map((c) => c.variantId)],
+        session
+      );
+      await recordPriceChanges(
+        [{ variantId: bundle._id, before, after: priceStateOf(bundle) }],
+        { source: "bundle", actor: toStockActor(req.user) },
+        session
+      );
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
+    }
+
+    const updated = await Variant.findById(variantId);
+    res.status(200).json({
+      message: "Bundle updated successfully",
+      variant: await presentVariant(updated!),
+    });
+  }
+);
+
+// Sell bundle => decrement every component in one transaction
+export const sellBundleById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof sellBundleSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { quantity, referenceId } = req.validated.body;
+
+    const bundle = await Variant.findById(variantId);
+    if (!bundle) return next(new AppError("Variant not found", 404));
+
+    const session = await startSession();
+    let components;
+
+    try {
+      await session.withTransaction(async () => {
+        ({ components } = await sellBundle(
+          bundle,
+          quantity,
+          referenceId,
+          toStockActor(req.user),
+          session
+        ));
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) return next(error);
+      return next(new AppError("Failed to sell bundle: " + error.message, 500));
+    } finally {
+      session.endSession();
+    }
+
+    const updated = await Variant.findById(variantId);
+    res.status(200).json({
+      message: "Bundle sold successfully",
+      variant: await presentVariant(updated!),
+      components,
+    });
+  }
+);
@@ -0,0 +1,164 @@
+import { NextFunction, Request, Response } from "express";
+import { startSession, Types } from "mongoose";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import { AuthenticatedRequest } from "../middlewares/admin.middleware";
+import DiscountSchedule from "../models/discountSchedule.model";
+import Variant from "../models/variant.model";
+import {
+  findOverlappingSchedule,
+  revertSchedule,
+} from "../services/discountSchedule.service";
+
+// Create discount schedule => variant or product scoped
+export const createDiscountSchedule = catchAsync(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { scope, targetId, discountPercent, startsAt, endsAt } = req.body;
+
+    if (!["variant", "product"].includes(scope)) {
+      return next(new AppError("Scope must be variant or product", 400));
+    }
+    if (!targetId || !Types.ObjectId.isValid(targetId)) {
+      return next(new AppError("A valid targetId is required", 400));
+    }
+    if (
+      typeof discountPercent !== "number" ||
+      discountPercent <= 0 ||
+      discountPercent > 100
+    ) {
+      return next(
+        new AppError("Discount percent must be between 1 and 100", 400)
+      );
+    }
+
+    const start = new Date(startsAt);
+    const end = new Date(endsAt);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return next(new AppError("startsAt and endsAt must be valid dates", 400));
+    }
+    if (end <= start) {
+      return next(new AppError("endsAt must be after startsAt", 400));
+    }
+    if (end <= new Date()) {
+      return next(new AppError("endsAt must be in the future", 400));
+    }
+
+    const target = new Types.ObjectId(targetId as string);
+    const hasVariants = await Variant.exists(
+      scope === "variant" ? { _id: target } : { productId: target }
+    );
+    if (!hasVariants) {
+      return next(new AppError("No variants found for this target", 404));
+    }
+
+    const overlapping = await findOverlappingSchedule({
+      scope,
+      targetId: target,
+      startsAt: start,
+      endsAt: end,
+    });
+    if (overlapping) {
+      return next(
+        new AppError(
+          `Overlaps with discount schedule ${overlapping._id} (${overlapping.startsAt.toISOString()} - ${overlapping.endsAt.toISOString()})`,
+          409
+        )
+      );
+    }
+
+    const schedule = await DiscountSchedule.create({
+      scope,
+      targetId: target,
+      discountPercent,
+      startsAt: start,
+      endsAt: end,
+      createdBy: req.user?.userId,
+    });
+
+    res
+      .status(201)
+      .json({ message: "Discount schedule created successfully", schedule });
+  }
+);
+
+// Get discount schedules
+export const getDiscountSchedules = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { page = 1, limit = 20, status, scope, targetId } = req.query;
+
+    const query: any = {};
+    if (status) query.status = status;
+    if (scope) query.scope = scope;
+    if (targetId) query.targetId = targetId;
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const schedules = await DiscountSchedule.find(query)
+      .sort({ startsAt: 1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await DiscountSchedule.countDocuments(query);
+
+    res.status(200).json({
+      message: "Discount schedules fetched successfully",
+      pagination: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(total / Number(limit)),
+      },
+      schedules,
+    });
+  }
+);
+
+// Cancel discount schedule => reverts immediately if already active
+export const cancelDiscountSchedule = catchAsync(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { scheduleId } = req.params;
+
+    if (!Types.ObjectId.isValid(scheduleId)) {
+      return next(new AppError("Invalid schedule ID", 400));
+    }
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      const schedule = await DiscountSchedule.findById(scheduleId).session(
+        session
+      );
+      if (!schedule) throw new AppError("Discount schedule not found", 404);
+
+      if (schedule.status === "active") {
+        await revertSchedule(schedule, "cancelled", req.user?.userId, session);
+      } else if (schedule.status === "scheduled") {
+        schedule.status = "cancelled";
+        schedule.history.push({
+          action: "cancelled",
+          at: new Date(),
+          variantCount: 0,
+          by: req.user?.userId,
+        });
+        await schedule.save({ session });
+      } else {
+        throw new AppError(`Discount schedule is already ${schedule.status}`, 400);
+      }
+
+      await session.commitTransaction();
+      session.endSession();
+
+      res
+        .status(200)
+        .json({ message: "Discount schedule cancelled successfully", schedule });
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+      if (error instanceof AppError) return next(error);
+      return next(
+        new AppError("Failed to cancel discount schedule: " + error.message, 500)
+      );
+    }
+  }
+);
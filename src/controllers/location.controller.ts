@@ -0,0 +1,165 @@
+import { NextFunction, Request, Response } from "express";
+import { startSession, Types } from "mongoose";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import { AuthenticatedRequest } from "../middlewares/admin.middleware";
+import Location from "../models/location.model";
+import InventoryLevel from "../models/inventoryLevel.model";
+import { toStockActor, transferStock } from "../services/stock.service";
+
+// Create location
+export const createLocation = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { code, name, type, address, isDefault } = req.body;
+
+    if (!code || !name) {
+      return next(new AppError("Code and name are required", 400));
+    }
+    if (!["warehouse", "store"].includes(type)) {
+      return next(new AppError("Type must be warehouse or store", 400));
+    }
+
+    const existing = await Location.findOne({ code: code.toUpperCase() });
+    if (existing) return next(new AppError("Location code already exists", 400));
+
+    // only one default location at a time
+    if (isDefault) {
+      await Location.updateMany({ isDefault: true }, { isDefault: false });
+    }
+
+    const location = await Location.create({
+      code,
+      name,
+      type,
+      address,
+      isDefault: !!isDefault,
+    });
+
+    res.status(201).json({ message: "Location created successfully", location });
+  }
+);
+
+// Get all locations
+export const getLocations = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { isActive } = req.query;
+
+    const query: any = {};
+    if (isActive) query.isActive = isActive === "true";
+
+    const locations = await Location.find(query).sort({ code: 1 });
+
+    res.status(200).json({ locations });
+  }
+);
+
+// Update location => name, address, active flag, default flag
+export const updateLocation = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { locationId } = req.params;
+    const { name, address, isActive, isDefault } = req.body;
+
+    if (!Types.ObjectId.isValid(locationId)) {
+      return next(new AppError("Invalid location ID", 400));
+    }
+
+    const location = await Location.findById(locationId);
+    if (!location) return next(new AppError("Location not found", 404));
+
+    if (isActive === false && (isDefault || location.isDefault)) {
+      return next(new AppError("Default location cannot be deactivated", 400));
+    }
+
+    if (name !== undefined) location.name = name;
+    if (address !== undefined) location.address = address;
+    if (isActive !== undefined) location.isActive = isActive;
+
+    if (isDefault === true && !location.isDefault) {
+      await Location.updateMany({ isDefault: true }, { isDefault: false });
+      location.isDefault = true;
+    }
+
+    await location.save();
+
+    res.status(200).json({ message: "Location updated successfully", location });
+  }
+);
+
+// Get stock levels held at a location
+export const getLocationStock = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { locationId } = req.params;
+    const { page = 1, limit = 50 } = req.query;
+
+    if (!Types.ObjectId.isValid(locationId)) {
+      return next(new AppError("Invalid location ID", 400));
+    }
+
+    const location = await Location.findById(locationId);
+    if (!location) return next(new AppError("Location not found", 404));
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const query = { locationId, stock: { $gt: 0 } };
+
+    const levels = await InventoryLevel.find(query)
+      .populate("variantId", "productId size sku")
+      .sort({ stock: -1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await InventoryLevel.countDocuments(query);
+
+    res.status(200).json({
+      location,
+      pagination: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(total / Number(limit)),
+      },
+      levels,
+    });
+  }
+);
+
+// Transfer stock between locations (aggregate stock is unchanged)
+export const transferLocationStock = catchAsync(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { variantId, fromLocationId, toLocationId, quantity, referenceId } =
+      req.body;
+
+    if (!variantId || !fromLocationId || !toLocationId) {
+      return next(
+        new AppError("variantId, fromLocationId and toLocationId are required", 400)
+      );
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return next(new AppError("Quantity must be a positive integer", 400));
+    }
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      const { from, to } = await transferStock(
+        { variantId, fromLocationId, toLocationId, quantity, referenceId },
+        toStockActor(req.user),
+        session
+      );
+
+      await session.commitTransaction();
+      session.endSession();
+
+      res.status(200).json({
+        message: "Stock transferred successfully",
+        from,
+        to,
+      });
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+      if (error instanceof AppError) return next(error);
+      return next(new AppError("Failed to transfer stock: " + error.message, 500));
+    }
+  }
+);
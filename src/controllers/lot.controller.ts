@@ -0,0 +1,253 @@
+import { NextFunction, Response } from "express";
+import { startSession } from "mongoose";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import Lot from "../models/lot.model";
+import Variant from "../models/variant.model";
+import StockMovement from "../models/stockMovement.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  createLotSchema,
+  getExpiringLotsSchema,
+  getLotByIdSchema,
+  getLotsSchema,
+  quarantineLotSchema,
+  releaseLotSchema,
+} from "../validations/lot.validation";
+import { quarantineLot, releaseLot } from "../services/lot.service";
+
+const LOT_MOVEMENTS_LIMIT = 100;
+
+// List lots
+export const getLots = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getLotsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { page, limit, variantId, status, batchCode } = req.validated.query;
+
+    const query: any = {};
+    if (variantId) query.variantId = variantId;
+    if (status) query.status = status;
+    if (batchCode) query.batchCode = batchCode;
+
+    const skip = (page - 1) * limit;
+    const lots = await Lot.find(query)
+      .sort({ expiresAt: 1, _id: 1 })
+      .skip(skip)
+      .limit(limit)
+      .populate("variantId", "sku size productId");
+    const total = await Lot.countDocuments(query);
+
+    res.status(200).json({
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      lots,
+    });
+  }
+);
+
+// Lots with stock left that expire within `days` (soonest first)
+export const getExpiringLots = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getExpiringLotsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { page, limit, days, includeExpired, variantId } =
+      req.validated.query;
+
+    const now = new Date();
+    const until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const query: any = {
+      status: { $ne: "depleted" },
+      quantity: { $gt: 0 },
+      expiresAt: includeExpired ? { $lte: until } : { $gte: now, $lte: until },
+    };
+    if (variantId) query.variantId = variantId;
+
+    const skip = (page - 1) * limit;
+    const lots = await Lot.find(query)
+      .sort({ expiresAt: 1, _id: 1 })
+      .skip(skip)
+      .limit(limit)
+      .populate("variantId", "sku size productId");
+    const total = await Lot.countDocuments(query);
+
+    res.status(200).json({
+      days,
+      until,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      lots: lots.map((lot) => ({
+        ...lot.toJSON(),
+        expired: lot.expiresAt! < now,
+        daysLeft: Math.floor(
+          (lot.expiresAt!.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)
+        ),
+      })),
+    });
+  }
+);
+
+// Get lot by ID with the movements that touched it (recall tracing)
+export const getLotById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getLotByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { lotId } = req.validated.params;
+
+    const lot = await Lot.findById(lotId).populate(
+      "variantId",
+      "sku size productId"
+    );
+    if (!lot) return next(new AppError("Lot not found", 404));
+
+    const movements = await StockMovement.find({ "lots.lotId": lot._id })
+      .sort({ createdAt: -1 })
+      .limit(LOT_MOVEMENTS_LIMIT);
+
+    res.status(200).json({
+      lot,
+      movements: movements.map((movement) => ({
+        _id: movement._id,
+        reason: movement.reason,
+        referenceId: movement.referenceId,
+        locationId: movement.locationId,
+        createdAt: movement.createdAt,
+        quantity: movement.lots!.find((l) => l.lotId.equals(lot._id))!
+          .quantity,
+      })),
+    });
+  }
+);
+
+// Create lot => assign stock already on hand (not in any lot) to a batch
+export const createLot = catchAsync(
+  async (
+    req: ValidatedRequest<typeof createLotSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId, quantity, batchCode, manufacturedAt, expiresAt } =
+      req.validated.body;
+
+    const session = await startSession();
+    session.startTransaction();
+
+    let lot;
+    try {
+      const variant = await Variant.findById(variantId).session(session);
+      if (!variant) throw new AppError("Variant not found", 404);
+      if (variant.kind === "bundle") {
+        throw new AppError("Bundles have no stock of their own", 400);
+      }
+
+      const existing = await Lot.exists({ variantId, batchCode }).session(
+        session
+      );
+      if (existing) throw new AppError("Lot already exists for variant", 400);
+
+      const [{ inLots = 0 } = {}] = await Lot.aggregate([
+        { $match: { variantId: variant._id } },
+        { $group: { _id: null, inLots: { $sum: "$quantity" } } },
+      ]).session(session);
+      const untracked = variant.stock - inLots;
+      if (quantity > untracked) {
+        throw new AppError(
+          `Only ${untracked} unit(s) of this variant are not in a lot`,
+          400
+        );
+      }
+
+      [lot] = await Lot.create(
+        [
+          {
+            variantId,
+            batchCode,
+            manufacturedAt,
+            expiresAt,
+            quantity,
+            receivedQuantity: quantity,
+            createdBy: req.user?.userId,
+          },
+        ],
+        { session }
+      );
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
+    }
+
+    res.status(201).json({ message: "Lot created successfully", lot });
+  }
+);
+
+// Quarantine lot => on hand but no longer available
+export const quarantineLotById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof quarantineLotSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { lotId } = req.validated.params;
+    const { reason } = req.validated.body;
+
+    const session = await startSession();
+    let lot;
+
+    try {
+      await session.withTransaction(async () => {
+        lot = await quarantineLot(lotId, reason, session);
+      });
+    } catch (error) {
+      return next(error);
+    } finally {
+      session.endSession();
+    }
+
+    res.status(200).json({ message: "Lot quarantined successfully", lot });
+  }
+);
+
+// Release lot => back into available stock
+export const releaseLotById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof releaseLotSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { lotId } = req.validated.params;
+
+    const session = await startSession();
+    let lot;
+
+    try {
+      await session.withTransaction(async () => {
+        lot = await releaseLot(lotId, session);
+      });
+    } catch (error) {
+      return next(error);
+    } finally {
+      session.endSession();
+    }
+
+    res.status(200).json({ message: "Lot released successfully", lot });
+  }
+);
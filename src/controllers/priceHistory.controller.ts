@@ -0,0 +1,113 @@
+import { NextFunction, Response } from "express";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import PriceHistory from "../models/priceHistory.model";
+import Variant from "../models/variant.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  getPriceAtSchema,
+  getPriceHistorySchema,
+} from "../validations/variant.validation";
+import { priceStateOf } from "../services/priceHistory.service";
+import { BASE_CURRENCY } from "../configs/currency.config";
+
+// Get price timeline of a variant (oldest version first)
+export const getPriceHistory = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getPriceHistorySchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { page, limit, from, to } = req.validated.query;
+
+    const query: any = { variantId };
+
+    // Date range filter
+    if (from || to) {
+      query.effectiveAt = {};
+      if (from) query.effectiveAt.$gte = from;
+      if (to) query.effectiveAt.$lte = to;
+    }
+
+    const skip = (page - 1) * limit;
+
+    const versions = await PriceHistory.find(query)
+      .sort({ version: 1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await PriceHistory.countDocuments(query);
+
+    res.status(200).json({
+      message: "Price history fetched successfully",
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      versions,
+    });
+  }
+);
+
+/**
+ * Effective price of a variant at a timestamp: the latest version recorded
+ * at or before it. Before the first recorded version, the state that
+ * version replaced is returned; variants with no history at all have kept
+ * their current price since creation.
+ */
+export const getPriceAt = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getPriceAtSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { at } = req.validated.query;
+
+    const variant = await Variant.findById(variantId);
+    if (!variant) return next(new AppError("Variant not found", 404));
+    if (variant.createdAt > at) {
+      return next(new AppError("Variant did not exist at that time", 404));
+    }
+
+    const current = await PriceHistory.findOne({
+      variantId,
+      effectiveAt: { $lte: at },
+    }).sort({ effectiveAt: -1, version: -1 });
+    const following = await PriceHistory.findOne({
+      variantId,
+      effectiveAt: { $gt: at },
+    }).sort({ effectiveAt: 1, version: 1 });
+
+    if (current) {
+      return res.status(200).json({
+        variantId,
+        at,
+        currency: current.currency,
+        ...priceStateOf(current),
+        version: current.version,
+        effectiveFrom: current.effectiveAt,
+        effectiveTo: following?.effectiveAt ?? null,
+      });
+    }
+
+    // no version yet at that time: the state the first version replaced
+    const state = following ? following.previous : priceStateOf(variant);
+    if (!state) {
+      return next(new AppError("No price recorded for that time", 404));
+    }
+
+    res.status(200).json({
+      variantId,
+      at,
+      currency: following?.currency ?? BASE_CURRENCY,
+      ...priceStateOf(state),
+      version: null,
+      effectiveFrom: variant.createdAt,
+      effectiveTo: following?.effectiveAt ?? null,
+    });
+  }
+);
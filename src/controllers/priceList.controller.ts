@@ -0,0 +1,265 @@
+import { NextFunction, Response } from "express";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import PriceList from "../models/priceList.model";
+import VariantPrice from "../models/variantPrice.model";
+import Variant from "../models/variant.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  createPriceListSchema,
+  getPriceListByIdSchema,
+  getPriceListsSchema,
+  removePriceListPriceSchema,
+  setPriceListPricesSchema,
+  updatePriceListDiscountSchema,
+  updatePriceListSchema,
+} from "../validations/priceList.validation";
+import { PRICE_LIST_DECIMALS } from "../services/priceList.service";
+import { CURRENCY_RATES } from "../configs/currency.config";
+import { computeDiscountPrice } from "../utils/pricing";
+
+// Create price list
+export const createPriceList = catchAsync(
+  async (
+    req: ValidatedRequest<typeof createPriceListSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { code, name, currency, region } = req.validated.body;
+
+    const existing = await PriceList.findOne({ code: code.toUpperCase() });
+    if (existing) {
+      return next(new AppError("Price list code already exists", 400));
+    }
+
+    const priceList = await PriceList.create({
+      code,
+      name,
+      currency,
+      region,
+      createdBy: req.user?.userId,
+    });
+
+    res.status(201).json({
+      message: "Price list created successfully",
+      priceList,
+      // without a rate, variants missing from the list cannot be priced
+      hasConversionRate: !!CURRENCY_RATES[currency],
+    });
+  }
+);
+
+// Get price lists
+export const getPriceLists = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getPriceListsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { currency, region, isActive } = req.validated.query;
+
+    const query: any = {};
+    if (currency) query.currency = currency;
+    if (region) query.region = region.toUpperCase();
+    if (isActive != null) query.isActive = isActive;
+
+    const priceLists = await PriceList.find(query).sort({ code: 1 });
+
+    res.status(200).json({ priceLists });
+  }
+);
+
+// Get price list by ID with its variant prices
+export const getPriceListById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getPriceListByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { priceListId } = req.validated.params;
+    const { page, limit } = req.validated.query;
+
+    const priceList = await PriceList.findById(priceListId);
+    if (!priceList) return next(new AppError("Price list not found", 404));
+
+    const skip = (page - 1) * limit;
+    const prices = await VariantPrice.find({ priceListId })
+      .sort({ _id: 1 })
+      .skip(skip)
+      .limit(limit);
+    const total = await VariantPrice.countDocuments({ priceListId });
+
+    res.status(200).json({
+      priceList,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      prices,
+    });
+  }
+);
+
+// Update price list => name, region, active flag
+export const updatePriceList = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updatePriceListSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { priceListId } = req.validated.params;
+    const { name, region, isActive } = req.validated.body;
+
+    const priceList = await PriceList.findById(priceListId);
+    if (!priceList) return next(new AppError("Price list not found", 404));
+
+    if (name !== undefined) priceList.name = name;
+    if (region !== undefined) priceList.region = region ?? undefined;
+    if (isActive !== undefined) priceList.isActive = isActive;
+
+    await priceList.save();
+
+    res
+      .status(200)
+      .json({ message: "Price list updated successfully", priceList });
+  }
+);
+
+// Set variant prices on a price list => upsert, discount price recomputed
+export const setPriceListPrices = catchAsync(
+  async (
+    req: ValidatedRequest<typeof setPriceListPricesSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { priceListId } = req.validated.params;
+    const { prices } = req.validated.body;
+
+    const priceList = await PriceList.findById(priceListId);
+    if (!priceList) return next(new AppError("Price list not found", 404));
+
+    const variantIds = prices.map((p) => p.variantId);
+    const found = await Variant.find({ _id: { $in: variantIds } }).select("_id");
+    if (found.length !== variantIds.length) {
+      const foundIds = new Set(found.map((v) => v._id.toString()));
+      const missing = variantIds.filter((id) => !foundIds.has(id));
+      return next(
+        new AppError(`Variant(s) not found: ${missing.join(", ")}`, 404)
+      );
+    }
+
+    // entries keep their discount unless a new one is sent
+    const current = await VariantPrice.find({
+      priceListId,
+      variantId: { $in: variantIds },
+    });
+    const currentByVariant = new Map(
+      current.map((c) => [c.variantId.toString(), c])
+    );
+
+    const bulkOps = prices.map(({ variantId, price, discountPercent }) => {
+      const percent =
+        discountPercent ??
+        currentByVariant.get(variantId)?.discountPercent ??
+        0;
+      return {
+        updateOne: {
+          filter: { priceListId, variantId },
+          update: {
+            $set: {
+              price,
+              discountPercent: percent,
+              discountPrice: computeDiscountPrice(
+                price,
+                percent,
+                PRICE_LIST_DECIMALS
+              ),
+            },
+          },
+          upsert: true,
+        },
+      };
+    });
+
+    const result = await VariantPrice.bulkWrite(bulkOps);
+
+    res.status(200).json({
+      message: "Price list prices updated successfully",
+      created: result.upsertedCount,
+      updated: result.modifiedCount,
+    });
+  }
+);
+
+// Remove a variant's price => it falls back to the converted base price
+export const removePriceListPrice = catchAsync(
+  async (
+    req: ValidatedRequest<typeof removePriceListPriceSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { priceListId, variantId } = req.validated.params;
+
+    const removed = await VariantPrice.findOneAndDelete({
+      priceListId,
+      variantId,
+    });
+    if (!removed) {
+      return next(new AppError("Variant has no price on this price list", 404));
+    }
+
+    res.status(200).json({ message: "Price removed successfully" });
+  }
+);
+
+// Apply a discount to a price list's prices (all, some variants or a product)
+export const updatePriceListDiscount = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updatePriceListDiscountSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { priceListId } = req.validated.params;
+    const { discountPercent, variantIds, productId } = req.validated.body;
+
+    const priceList = await PriceList.findById(priceListId);
+    if (!priceList) return next(new AppError("Price list not found", 404));
+
+    const query: any = { priceListId };
+    if (variantIds) query.variantId = { $in: variantIds };
+    if (productId) {
+      const variants = await Variant.find({ productId }).select("_id");
+      query.variantId = { $in: variants.map((v) => v._id) };
+    }
+
+    const entries = await VariantPrice.find(query);
+    if (entries.length === 0) {
+      return next(new AppError("No prices found on this price list", 404));
+    }
+
+    const bulkOps = entries.map((entry) => ({
+      updateOne: {
+        filter: { _id: entry._id },
+        update: {
+          $set: {
+            discountPercent,
+            discountPrice: computeDiscountPrice(
+              entry.price,
+              discountPercent,
+              PRICE_LIST_DECIMALS
+            ),
+          },
+        },
+      },
+    }));
+
+    await VariantPrice.bulkWrite(bulkOps);
+
+    res.status(200).json({
+      message: "Price list discount updated successfully",
+      updatedCount: entries.length,
+    });
+  }
+);
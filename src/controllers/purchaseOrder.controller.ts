@@ -0,0 +1,266 @@
+import { NextFunction, Response } from "express";
+import { startSession } from "mongoose";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import PurchaseOrder from "../models/purchaseOrder.model";
+import Variant from "../models/variant.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  createPurchaseOrderSchema,
+  getPurchaseOrdersSchema,
+  purchaseOrderByIdSchema,
+  receivePurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+} from "../validations/purchaseOrder.validation";
+import {
+  closePurchaseOrder,
+  receiptDiscrepancies,
+  receivePurchaseOrder,
+} from "../services/purchaseOrder.service";
+import { toStockActor } from "../services/stock.service";
+import logger from "../utils/logger";
+
+const findMissingVariants = async (variantIds: string[]) => {
+  const found = await Variant.find({ _id: { $in: variantIds } }).select("_id");
+  const foundIds = new Set(found.map((v) => v._id.toString()));
+  return variantIds.filter((id) => !foundIds.has(id));
+};
+
+// Create purchase order => starts as draft
+export const createPurchaseOrder = catchAsync(
+  async (
+    req: ValidatedRequest<typeof createPurchaseOrderSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { supplier, lines, expectedAt, notes } = req.validated.body;
+
+    const missing = await findMissingVariants(lines.map((l) => l.variantId));
+    if (missing.length) {
+      return next(
+        new AppError(`Variant(s) not found: ${missing.join(", ")}`, 404)
+      );
+    }
+
+    const purchaseOrder = await PurchaseOrder.create({
+      supplier,
+      lines,
+      expectedAt,
+      notes,
+      createdBy: req.user?.userId,
+    });
+
+    res.status(201).json({
+      message: "Purchase order created successfully",
+      purchaseOrder,
+    });
+  }
+);
+
+// Get purchase orders (newest first)
+export const getPurchaseOrders = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getPurchaseOrdersSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { page, limit, status, supplier, variantId } = req.validated.query;
+
+    const query: any = {};
+    if (status) query.status = status;
+    if (supplier) query["supplier.name"] = { $regex: new RegExp(supplier, "i") };
+    if (variantId) query["lines.variantId"] = variantId;
+
+    const skip = (page - 1) * limit;
+
+    const purchaseOrders = await PurchaseOrder.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await PurchaseOrder.countDocuments(query);
+
+    res.status(200).json({
+      message: "Purchase orders fetched successfully",
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      purchaseOrders,
+    });
+  }
+);
+
+// Get purchase order by ID, with over/under receipt flags
+export const getPurchaseOrderById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof purchaseOrderByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { purchaseOrderId } = req.validated.params;
+
+    const purchaseOrder = await PurchaseOrder.findById(purchaseOrderId);
+    if (!purchaseOrder) {
+      return next(new AppError("Purchase order not found", 404));
+    }
+
+    res.status(200).json({
+      purchaseOrder,
+      discrepancies: receiptDiscrepancies(purchaseOrder),
+    });
+  }
+);
+
+// Update purchase order => drafts only
+export const updatePurchaseOrder = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updatePurchaseOrderSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { purchaseOrderId } = req.validated.params;
+    const { supplier, lines, expectedAt, notes } = req.validated.body;
+
+    const purchaseOrder = await PurchaseOrder.findById(purchaseOrderId);
+    if (!purchaseOrder) {
+      return next(new AppError("Purchase order not found", 404));
+    }
+    if (purchaseOrder.status !== "draft") {
+      return next(
+        new AppError("Only draft purchase orders can be edited", 409)
+      );
+    }
+
+    if (lines) {
+      const missing = await findMissingVariants(lines.map((l) => l.variantId));
+      if (missing.length) {
+        return next(
+          new AppError(`Variant(s) not found: ${missing.join(", ")}`, 404)
+        );
+      }
+      purchaseOrder.set("lines", lines);
+    }
+    if (supplier) purchaseOrder.set("supplier", supplier);
+    if (expectedAt !== undefined) {
+      purchaseOrder.expectedAt = expectedAt ?? undefined;
+    }
+    if (notes !== undefined) purchaseOrder.notes = notes;
+
+    await purchaseOrder.save();
+
+    res.status(200).json({
+      message: "Purchase order updated successfully",
+      purchaseOrder,
+    });
+  }
+);
+
+// Send purchase order => draft to sent, its lines now count as incoming
+export const sendPurchaseOrder = catchAsync(
+  async (
+    req: ValidatedRequest<typeof purchaseOrderByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { purchaseOrderId } = req.validated.params;
+
+    const purchaseOrder = await PurchaseOrder.findOneAndUpdate(
+      { _id: purchaseOrderId, status: "draft" },
+      { $set: { status: "sent", sentAt: new Date() } },
+      { new: true }
+    );
+    if (!purchaseOrder) {
+      const exists = await PurchaseOrder.exists({ _id: purchaseOrderId });
+      return next(
+        exists
+          ? new AppError("Only draft purchase orders can be sent", 409)
+          : new AppError("Purchase order not found", 404)
+      );
+    }
+
+    res.status(200).json({
+      message: "Purchase order sent successfully",
+      purchaseOrder,
+    });
+  }
+);
+
+// Receive goods => stock up per line, flag over-receipts
+export const receivePurchaseOrderItems = catchAsync(
+  async (
+    req: ValidatedRequest<typeof receivePurchaseOrderSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { purchaseOrderId } = req.validated.params;
+    const { items, locationId, note } = req.validated.body;
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      const purchaseOrder = await PurchaseOrder.findById(
+        purchaseOrderId
+      ).session(session);
+      if (!purchaseOrder) throw new AppError("Purchase order not found", 404);
+
+      const receipt = await receivePurchaseOrder(
+        purchaseOrder,
+        items,
+        { locationId, note, actor: toStockActor(req.user) },
+        session
+      );
+
+      await session.commitTransaction();
+      session.endSession();
+
+      const discrepancies = receiptDiscrepancies(purchaseOrder);
+      if (discrepancies.length) {
+        logger.warn(
+          `Purchase order ${purchaseOrder.poNumber} over-received on ${discrepancies.length} line(s)`
+        );
+      }
+
+      res.status(200).json({
+        message: "Goods received successfully",
+        purchaseOrder,
+        receipt,
+        discrepancies,
+      });
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+      if (error instanceof AppError) return next(error);
+      return next(
+        new AppError("Failed to receive purchase order: " + error.message, 500)
+      );
+    }
+  }
+);
+
+// Close purchase order => no more receipts, short lines flagged as under
+export const closePurchaseOrderById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof purchaseOrderByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { purchaseOrderId } = req.validated.params;
+
+    const purchaseOrder = await PurchaseOrder.findById(purchaseOrderId);
+    if (!purchaseOrder) {
+      return next(new AppError("Purchase order not found", 404));
+    }
+
+    await closePurchaseOrder(purchaseOrder);
+
+    res.status(200).json({
+      message: "Purchase order closed successfully",
+      purchaseOrder,
+      discrepancies: receiptDiscrepancies(purchaseOrder),
+    });
+  }
+);
@@ -0,0 +1,114 @@
+import { NextFunction, Response } from "express";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import Variant from "../models/variant.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  quoteSchema,
+  updatePriceTiersSchema,
+} from "../validations/variant.validation";
+import { BASE_CURRENCY } from "../configs/currency.config";
+import { assertIfMatch, documentETag } from "../utils/etag";
+import { quotePrice } from "../utils/pricing";
+
+// Replace a variant's quantity price tiers
+export const updatePriceTiers = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updatePriceTiersSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { tiers } = req.validated.body;
+
+    const variant = await Variant.findById(variantId);
+    if (!variant) return next(new AppError("Variant not found", 404));
+    assertIfMatch(req, variant);
+
+    if (variant.kind === "bundle") {
+      return next(
+        new AppError(
+          "Bundle prices are changed through the bundle pricing",
+          400
+        )
+      );
+    }
+
+    // versioned save: a concurrent edit fails with 412
+    variant.set("priceTiers", tiers);
+    await variant.save();
+
+    res.set("ETag", documentETag(variant));
+    res.status(200).json({
+      message: "Price tiers updated successfully",
+      variant,
+    });
+  }
+);
+
+/**
+ * Quote lines of variant + quantity. Per line: the tier the quantity falls
+ * in (its unitPrice replaces the base price), the variant's discountPercent
+ * applied on top, and the line total.
+ */
+export const createQuote = catchAsync(
+  async (
+    req: ValidatedRequest<typeof quoteSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { lines } = req.validated.body;
+
+    const variants = await Variant.find({
+      _id: { $in: lines.map((l) => l.variantId) },
+    });
+    const variantById = new Map(variants.map((v) => [v._id.toString(), v]));
+
+    const missing = lines.filter((l) => !variantById.has(l.variantId));
+    if (missing.length) {
+      return next(
+        new AppError(
+          `Variant(s) not found: ${missing.map((l) => l.variantId).join(", ")}`,
+          404
+        )
+      );
+    }
+    const inactive = variants.filter((v) => !v.isActive);
+    if (inactive.length) {
+      return next(
+        new AppError(
+          `Variant(s) not available: ${inactive.map((v) => v.sku).join(", ")}`,
+          400
+        )
+      );
+    }
+
+    const quoted = lines.map(({ variantId, quantity }) => {
+      const variant = variantById.get(variantId)!;
+      const { tier, ...price } = quotePrice(variant, quantity);
+
+      return {
+        variantId,
+        sku: variant.sku,
+        quantity,
+        basePrice: variant.price,
+        tier: tier || null,
+        ...price,
+      };
+    });
+
+    const subtotal = quoted.reduce(
+      (sum, l) => sum + l.unitPrice * l.quantity,
+      0
+    );
+    const discount = quoted.reduce((sum, l) => sum + l.discountAmount, 0);
+
+    res.status(200).json({
+      currency: BASE_CURRENCY,
+      lines: quoted,
+      subtotal,
+      discount,
+      total: subtotal - discount,
+    });
+  }
+);
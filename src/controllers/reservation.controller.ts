@@ -0,0 +1,209 @@
+import { NextFunction, Request, Response } from "express";
+import { startSession, Types } from "mongoose";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import { AuthenticatedRequest } from "../middlewares/admin.middleware";
+import Reservation from "../models/reservation.model";
+import {
+  DEFAULT_RESERVATION_TTL_SECONDS,
+  MAX_RESERVATION_TTL_SECONDS,
+  holdStock,
+  mergeReservationItems,
+  releaseReservation,
+} from "../services/reservation.service";
+import { applyStockChanges, toStockActor } from "../services/stock.service";
+import { expandBundleItems } from "../services/bundle.service";
+import logger from "../utils/logger";
+
+// Create reservation => hold stock for checkout
+export const createReservation = catchAsync(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { items, referenceId, ttlSeconds } = req.body;
+    // items: [{ variantId, quantity }, ...]
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return next(new AppError("Items array is required", 400));
+    }
+
+    for (const item of items) {
+      if (!item.variantId || !Types.ObjectId.isValid(item.variantId)) {
+        return next(new AppError("Each item must have a valid variantId", 400));
+      }
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        return next(
+          new AppError("Each item must have a positive integer quantity", 400)
+        );
+      }
+    }
+
+    if (
+      ttlSeconds != null &&
+      (typeof ttlSeconds !== "number" ||
+        ttlSeconds <= 0 ||
+        ttlSeconds > MAX_RESERVATION_TTL_SECONDS)
+    ) {
+      return next(
+        new AppError(
+          `ttlSeconds must be between 1 and ${MAX_RESERVATION_TTL_SECONDS}`,
+          400
+        )
+      );
+    }
+
+    // bundles hold their components, so confirming sells the actual bottles
+    const reservationItems = mergeReservationItems(
+      await expandBundleItems(items)
+    );
+    const expiresAt = new Date(
+      Date.now() + (ttlSeconds || DEFAULT_RESERVATION_TTL_SECONDS) * 1000
+    );
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      await holdStock(reservationItems, session);
+
+      const [reservation] = await Reservation.create(
+        [
+          {
+            referenceId,
+            items: reservationItems,
+            status: "active",
+            expiresAt,
+            createdBy: req.user?.userId,
+          },
+        ],
+        { session }
+      );
+
+      await session.commitTransaction();
+      session.endSession();
+
+      res
+        .status(201)
+        .json({ message: "Reservation created successfully", reservation });
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+      if (error instanceof AppError) return next(error);
+      return next(
+        new AppError("Failed to create reservation: " + error.message, 500)
+      );
+    }
+  }
+);
+
+// Confirm reservation => held quantities become a real decrement
+export const confirmReservation = catchAsync(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { reservationId } = req.params;
+
+    if (!Types.ObjectId.isValid(reservationId)) {
+      return next(new AppError("Invalid reservation ID", 400));
+    }
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      const reservation = await Reservation.findById(reservationId).session(
+        session
+      );
+      if (!reservation) throw new AppError("Reservation not found", 404);
+      if (reservation.status !== "active") {
+        throw new AppError(`Reservation is ${reservation.status}`, 409);
+      }
+      if (reservation.expiresAt <= new Date()) {
+        throw new AppError("Reservation has expired", 409);
+      }
+
+      await applyStockChanges(
+        reservation.items.map(({ variantId, quantity }) => ({
+          variantId,
+          delta: -quantity,
+          reason: "sale" as const,
+          referenceId: reservation.referenceId || reservation._id.toString(),
+          releaseReserved: quantity,
+        })),
+        toStockActor(req.user),
+        session
+      );
+
+      reservation.status = "confirmed";
+      reservation.confirmedAt = new Date();
+      await reservation.save({ session });
+
+      await session.commitTransaction();
+      session.endSession();
+
+      logger.info(`Reservation confirmed: ${reservationId}`);
+      res
+        .status(200)
+        .json({ message: "Reservation confirmed successfully", reservation });
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+      if (error instanceof AppError) return next(error);
+      return next(
+        new AppError("Failed to confirm reservation: " + error.message, 500)
+      );
+    }
+  }
+);
+
+// Release reservation => give held quantities back
+export const releaseReservationById = catchAsync(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { reservationId } = req.params;
+
+    if (!Types.ObjectId.isValid(reservationId)) {
+      return next(new AppError("Invalid reservation ID", 400));
+    }
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      const reservation = await Reservation.findById(reservationId).session(
+        session
+      );
+      if (!reservation) throw new AppError("Reservation not found", 404);
+      if (reservation.status !== "active") {
+        throw new AppError(`Reservation is ${reservation.status}`, 409);
+      }
+
+      await releaseReservation(reservation, "released", session);
+
+      await session.commitTransaction();
+      session.endSession();
+
+      res
+        .status(200)
+        .json({ message: "Reservation released successfully", reservation });
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+      if (error instanceof AppError) return next(error);
+      return next(
+        new AppError("Failed to release reservation: " + error.message, 500)
+      );
+    }
+  }
+);
+
+// Get reservation by ID
+export const getReservationById = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { reservationId } = req.params;
+
+    if (!Types.ObjectId.isValid(reservationId)) {
+      return next(new AppError("Invalid reservation ID", 400));
+    }
+
+    const reservation = await Reservation.findById(reservationId);
+    if (!reservation) return next(new AppError("Reservation not found", 404));
+
+    res.status(200).json({ reservation });
+  }
+);
@@ -0,0 +1,69 @@
+import { NextFunction, Request, Response } from "express";
+import { Types } from "mongoose";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import { AuthenticatedRequest } from "../middlewares/admin.middleware";
+import StockAlert from "../models/stockAlert.model";
+
+// Get alert feed => queue, oldest first
+export const getStockAlerts = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { page = 1, limit = 20, status = "open", variantId } = req.query;
+
+    const query: any = {};
+    if (status !== "all") {
+      if (!["open", "acknowledged", "resolved"].includes(status as string)) {
+        return next(new AppError("Invalid status", 400));
+      }
+      query.status = status;
+    }
+    if (variantId) query.variantId = variantId;
+
+    const skip = (Number(page) - 1) * Number(limit);
+
+    const alerts = await StockAlert.find(query)
+      .populate("variantId", "productId size sku stock reorderPoint reorderQuantity")
+      .sort({ createdAt: 1 })
+      .skip(skip)
+      .limit(Number(limit));
+
+    const total = await StockAlert.countDocuments(query);
+
+    res.status(200).json({
+      message: "Stock alerts fetched successfully",
+      pagination: {
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(total / Number(limit)),
+      },
+      alerts,
+    });
+  }
+);
+
+// Acknowledge alert => purchasing has picked it up
+export const acknowledgeStockAlert = catchAsync(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const { alertId } = req.params;
+    const { note } = req.body;
+
+    if (!Types.ObjectId.isValid(alertId)) {
+      return next(new AppError("Invalid alert ID", 400));
+    }
+
+    const alert = await StockAlert.findById(alertId);
+    if (!alert) return next(new AppError("Alert not found", 404));
+    if (alert.status !== "open") {
+      return next(new AppError(`Alert is already ${alert.status}`, 400));
+    }
+
+    alert.status = "acknowledged";
+    alert.acknowledgedBy = req.user?.userId;
+    alert.acknowledgedAt = new Date();
+    if (note) alert.note = note;
+    await alert.save();
+
+    res.status(200).json({ message: "Alert acknowledged successfully", alert });
+  }
+);
@@ -0,0 +1,49 @@
+import { NextFunction, Response } from "express";
+import { catchAsync } from "../utils/catchAsync";
+import StockMovement from "../models/stockMovement.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import { getStockMovementsSchema } from "../validations/variant.validation";
+
+// Get stock movement history of a variant (newest first)
+export const getStockMovements = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getStockMovementsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { page, limit, reason, from, to } = req.validated.query;
+
+    const query: any = { variantId };
+
+    if (reason) query.reason = reason;
+
+    // Date range filter
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = from;
+      if (to) query.createdAt.$lte = to;
+    }
+
+    // Pagination
+    const skip = (page - 1) * limit;
+
+    const movements = await StockMovement.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await StockMovement.countDocuments(query);
+
+    res.status(200).json({
+      message: "Stock movements fetched successfully",
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      movements,
+    });
+  }
+);
@@ -0,0 +1,259 @@
+import { NextFunction, Response } from "express";
+import { startSession } from "mongoose";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import Stocktake from "../models/stocktake.model";
+import Variant from "../models/variant.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  cancelStocktakeSchema,
+  closeStocktakeSchema,
+  getStocktakesSchema,
+  openStocktakeSchema,
+  stocktakeByIdSchema,
+  submitCountsSchema,
+} from "../validations/stocktake.validation";
+import {
+  closeStocktake,
+  movementsBeforeCount,
+  recordCount,
+  snapshotExpected,
+  varianceReport,
+} from "../services/stocktake.service";
+import { toStockActor } from "../services/stock.service";
+
+// Open stocktake => snapshot expected quantities for the variants counted
+export const openStocktake = catchAsync(
+  async (
+    req: ValidatedRequest<typeof openStocktakeSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantIds, productId, locationId, note } = req.validated.body;
+
+    const ids = productId
+      ? (
+          await Variant.find({ productId, kind: { $ne: "bundle" } }).select(
+            "_id"
+          )
+        ).map((v) => v._id.toString())
+      : variantIds!;
+    if (!ids.length) {
+      return next(new AppError("No variants found for product", 404));
+    }
+
+    // a variant is in one open count at a time, or the adjustments would double up
+    const busy = await Stocktake.find({
+      status: "open",
+      "lines.variantId": { $in: ids },
+    }).select("code");
+    if (busy.length) {
+      return next(
+        new AppError(
+          `Variant(s) already being counted in: ${busy.map((s) => s.code).join(", ")}`,
+          409
+        )
+      );
+    }
+
+    const lines = await snapshotExpected(ids, locationId);
+
+    const stocktake = await Stocktake.create({
+      locationId,
+      note,
+      lines,
+      openedBy: req.user?.userId,
+    });
+
+    res.status(201).json({
+      message: "Stocktake opened successfully",
+      stocktake,
+    });
+  }
+);
+
+// List stocktakes
+export const getStocktakes = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getStocktakesSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { page, limit, status, variantId } = req.validated.query;
+
+    const query: any = {};
+    if (status) query.status = status;
+    if (variantId) query["lines.variantId"] = variantId;
+
+    const skip = (page - 1) * limit;
+    const stocktakes = await Stocktake.find(query)
+      .select("-lines.counts")
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+    const total = await Stocktake.countDocuments(query);
+
+    res.status(200).json({
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      stocktakes,
+    });
+  }
+);
+
+// Get stocktake by ID with every count submitted
+export const getStocktakeById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof stocktakeByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { stocktakeId } = req.validated.params;
+
+    const stocktake = await Stocktake.findById(stocktakeId);
+    if (!stocktake) return next(new AppError("Stocktake not found", 404));
+
+    res.status(200).json({ stocktake });
+  }
+);
+
+// Submit counts => one pass; later passes recount ("set") or add shelves ("add")
+export const submitCounts = catchAsync(
+  async (
+    req: ValidatedRequest<typeof submitCountsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { stocktakeId } = req.validated.params;
+    const { counts, mode } = req.validated.body;
+
+    const stocktake = await Stocktake.findById(stocktakeId);
+    if (!stocktake) return next(new AppError("Stocktake not found", 404));
+    if (stocktake.status !== "open") {
+      return next(new AppError(`Stocktake is ${stocktake.status}`, 409));
+    }
+
+    const lineByVariant = new Map(
+      stocktake.lines.map((line) => [line.variantId.toString(), line])
+    );
+    const unknown = counts.filter((c) => !lineByVariant.has(c.variantId));
+    if (unknown.length) {
+      return next(
+        new AppError(
+          `Variant(s) not in this stocktake: ${unknown.map((c) => c.variantId).join(", ")}`,
+          400
+        )
+      );
+    }
+
+    stocktake.passes += 1;
+    for (const { variantId, quantity } of counts) {
+      recordCount(
+        lineByVariant.get(variantId)!,
+        quantity,
+        mode,
+        stocktake.passes,
+        req.user?.userId
+      );
+    }
+
+    // versioned: a pass submitted concurrently fails with 412 and is resent
+    await stocktake.save();
+
+    res.status(200).json({
+      message: "Counts recorded successfully",
+      pass: stocktake.passes,
+      ...varianceReport(stocktake, await movementsBeforeCount(stocktake)),
+    });
+  }
+);
+
+// Variance report => counted - expected per line, valued at snapshot price
+export const getVarianceReport = catchAsync(
+  async (
+    req: ValidatedRequest<typeof stocktakeByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { stocktakeId } = req.validated.params;
+
+    const stocktake = await Stocktake.findById(stocktakeId);
+    if (!stocktake) return next(new AppError("Stocktake not found", 404));
+
+    res.status(200).json({
+      code: stocktake.code,
+      status: stocktake.status,
+      ...varianceReport(stocktake, await movementsBeforeCount(stocktake)),
+    });
+  }
+);
+
+// Close stocktake => post every variance as an adjustment in one transaction
+export const closeStocktakeById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof closeStocktakeSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { stocktakeId } = req.validated.params;
+    const { uncounted } = req.validated.body;
+
+    const session = await startSession();
+    let stocktake;
+    let adjusted = 0;
+
+    try {
+      await session.withTransaction(async () => {
+        stocktake = await Stocktake.findById(stocktakeId).session(session);
+        if (!stocktake) throw new AppError("Stocktake not found", 404);
+
+        adjusted = await closeStocktake(
+          stocktake,
+          { uncounted, actor: toStockActor(req.user) },
+          session
+        );
+      });
+    } catch (error) {
+      return next(error);
+    } finally {
+      session.endSession();
+    }
+
+    res.status(200).json({
+      message: "Stocktake closed successfully",
+      adjusted,
+      ...varianceReport(stocktake!),
+    });
+  }
+);
+
+// Cancel stocktake => discard the counts, no stock is touched
+export const cancelStocktake = catchAsync(
+  async (
+    req: ValidatedRequest<typeof cancelStocktakeSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { stocktakeId } = req.validated.params;
+
+    const stocktake = await Stocktake.findOneAndUpdate(
+      { _id: stocktakeId, status: "open" },
+      { $set: { status: "cancelled", cancelledAt: new Date() } },
+      { new: true }
+    );
+    if (!stocktake) {
+      const exists = await Stocktake.exists({ _id: stocktakeId });
+      if (!exists) return next(new AppError("Stocktake not found", 404));
+      return next(new AppError("Only open stocktakes can be cancelled", 409));
+    }
+
+    res.status(200).json({
+      message: "Stocktake cancelled successfully",
+      stocktake,
+    });
+  }
+);
@@ -2,96 +2,184 @@ import { NextFunction, Request, Response } from "express";
 import { catchAsync } from "../utils/catchAsync";
 import Variant from "../models/variant.model";
 import { AppError } from "../utils/appError";
-import { AuthenticatedRequest } from "../middlewares/admin.middleware";
 import { IVariantDocument } from "../schema/variant.schema";
-import axios from "axios";
+import { PriceState } from "../schema/priceHistory.schema";
 import { startSession, Types } from "mongoose";
 import { v4 as uuidv4 } from "uuid";
 import Audit from "../models/audit.model";
 import logger from "../utils/logger";
-
-interface StockUpdate {
-  variantId: string;
-  quantity: number;
-  type: "increase" | "decrease" | "set"; // Add = increase, Reduce = decrease, Set = overwrite
-}
+import {
+  applyStockChange,
+  applyStockChanges,
+  StockChange,
+  StockChangeResult,
+  toStockActor,
+} from "../services/stock.service";
+import { PriceSelection } from "../services/priceList.service";
+import {
+  priceEvents,
+  priceStateOf,
+  recordPriceChanges,
+} from "../services/priceHistory.service";
+import {
+  presentVariant,
+  presentVariants,
+} from "../services/variantView.service";
+import { evaluateReorderPoint } from "../services/stockAlert.service";
+import { enqueueEvents } from "../services/outbox.service";
+import { variantCreatedEvents } from "../services/variantEvents.service";
+import {
+  archiveProductVariants,
+  changeVariantStatus,
+  deleteVariant,
+} from "../services/variantLifecycle.service";
+import { getProductClient } from "../services/productClient.service";
+import {
+  buildCursorFilter,
+  buildVariantFilter,
+  buildVariantSort,
+  decodeVariantCursor,
+  encodeVariantCursor,
+} from "../services/variantQuery.service";
+import { computeDiscountPrice, roundAmount } from "../utils/pricing";
+import { assertIfMatch, documentETag } from "../utils/etag";
+import {
+  isPendingExpired,
+  pendingExpiry,
+  revertBulkDiscount,
+} from "../services/bulkDiscount.service";
+import { syncBundlePrices } from "../services/bundle.service";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  archiveVariantSchema,
+  archiveVariantsByProductSchema,
+  bulkDiscountOperationSchema,
+  bulkPriceChangeSchema,
+  bulkUpdateStockSchema,
+  createVariantSchema,
+  createVariantsSchema,
+  deleteVariantSchema,
+  getAllVariantsByIdsSchema,
+  getAllVariantsSchema,
+  getBulkDiscountOperationSchema,
+  getBulkDiscountOperationsSchema,
+  getLowStockVariantsSchema,
+  getVariantByIdSchema,
+  getVariantsByProductIdsSchema,
+  getVariantsByProductSchema,
+  prepareBulkDiscountSchema,
+  removeDiscountByProductIdSchema,
+  removeDiscountByVariantIdSchema,
+  removeDiscountFromProductServiceSchema,
+  restoreVariantSchema,
+  updateDiscountByProductIdSchema,
+  updateDiscountSchema,
+  updateReorderSettingsSchema,
+  updateStockSchema,
+  updateVariantSchema,
+  updateVariantStatusSchema,
+} from "../validations/variant.validation";
+
+// currency / price list picked by a read endpoint's query string
+const pricingOf = ({ currency, priceList, region }: PriceSelection) => ({
+  currency,
+  priceList,
+  region,
+});
+
+// New base price; discountPrice follows the variant's discountPercent
+const setBasePrice = (variant: IVariantDocument, price: number) => {
+  variant.price = price;
+  variant.discountPrice = computeDiscountPrice(
+    price,
+    variant.discountPercent || 0
+  );
+};
 
 export const createVariant = catchAsync(
-  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    const { productId } = req.params;
-    const { size, price, stock } = req.body;
-
-    if (!productId) next(new AppError("Product ID is required", 400));
-
-    // check product exists or not
-    const productResponse = await axios.get(
-      `${process.env.PRODUCT_SERVICE_URL}/api/products/${productId}`
-    );
-    if (!productResponse.data) next(new AppError("Product not found", 404));
+  async (
+    req: ValidatedRequest<typeof createVariantSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productId } = req.validated.params;
+    const { size, price, stock, status, locationId } = req.validated.body;
 
-    if (!size || !price || !stock)
-      next(new AppError("Size, Price and Stock are required", 400));
+    // check product exists or not (404 if it does not)
+    await getProductClient().assertProductExists(productId);
 
     // check size
     const existingVariant = await Variant.findOne({ productId, size });
-    if (existingVariant) next(new AppError("Variant already exists", 400));
+    if (existingVariant)
+      return next(new AppError("Variant already exists", 400));
 
-    // create Variant
-    const variant = await Variant.create({
-      productId,
-      size,
-      price,
-      stock,
-      createdBy: req.user?.userId,
-    });
-
-    if (!variant) next(new AppError("Failed to create variant", 500));
+    // create Variant + opening balance in the ledger
+    const session = await startSession();
+    session.startTransaction();
 
-    res.status(201).json({ message: "Variant created successfully", variant });
-  }
-);
+    try {
+      const [created] = await Variant.create(
+        [
+          {
+            productId,
+            size,
+            price,
+            stock: 0,
+            status, // drafts stay hidden from sale until activated
+            createdBy: req.user?.userId,
+          },
+        ],
+        { session }
+      );
+      await enqueueEvents(variantCreatedEvents([created]), session);
+
+      // opening stock goes through the ledger at the chosen location
+      const { variant } = await applyStockChange(
+        {
+          variantId: created._id,
+          delta: stock,
+          reason: "adjustment",
+          locationId,
+        },
+        toStockActor(req.user),
+        session
+      );
 
-export const createVariants = catchAsync(
-  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    const { productId } = req.params;
-    const { variants } = req.body; // Expecting [{ size, price, stock }, ...]
+      // first price history version
+      await recordPriceChanges(
+        [{ variantId: created._id, after: priceStateOf(created) }],
+        { source: "create", actor: toStockActor(req.user) },
+        session
+      );
 
-    if (!productId) return next(new AppError("Product ID is required", 400));
+      await session.commitTransaction();
+      session.endSession();
 
-    if (!Array.isArray(variants) || variants.length === 0) {
-      return next(new AppError("Variants array is required", 400));
+      res
+        .status(201)
+        .json({ message: "Variant created successfully", variant });
+    } catch (error) {
+      await session.abortTransaction();
+      session.endSession();
+      if (error instanceof AppError) return next(error);
+      next(new AppError("Failed to create variant", 500));
     }
+  }
+);
 
-    // Check if product exists in Product Service
-    const productResponse = await axios.get(
-      `${process.env.PRODUCT_SERVICE_URL}/api/products/${productId}`
-    );
-    if (!productResponse.data) {
-      return next(new AppError("Product not found", 404));
-    }
+export const createVariants = catchAsync(
+  async (
+    req: ValidatedRequest<typeof createVariantsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productId } = req.validated.params;
+    const { variants, locationId } = req.validated.body; // [{ size, price, stock }, ...]
 
-    // Validate each variant payload
-    for (const variant of variants) {
-      if (!variant.size || typeof variant.size !== "string") {
-        return next(new AppError("Each variant must have a valid size", 400));
-      }
-      if (variant.price == null || variant.price <= 0) {
-        return next(new AppError("Each variant must have a valid price", 400));
-      }
-      if (variant.stock == null || variant.stock < 0) {
-        return next(new AppError("Each variant must have a valid stock", 400));
-      }
-    }
+    // check product exists or not (404 if it does not)
+    await getProductClient().assertProductExists(productId);
 
-    // Prevent duplicates in request payload
     const sizesInRequest = variants.map((v) => v.size);
-    const hasDuplicateInRequest =
-      new Set(sizesInRequest).size !== sizesInRequest.length;
-    if (hasDuplicateInRequest) {
-      return next(
-        new AppError("Duplicate sizes found in request payload", 400)
-      );
-    }
 
     // Prevent duplicates in DB
     const existingVariants = await Variant.find({
@@ -114,16 +202,44 @@ export const createVariants = catchAsync(
     session.startTransaction();
 
     try {
-      const createdVariants = await Variant.insertMany(
+      const insertedVariants = await Variant.insertMany(
         variants.map((v) => ({
           productId,
           size: v.size,
           price: v.price,
-          stock: v.stock,
+          stock: 0,
+          status: v.status,
           createdBy: req.user?.userId,
         })),
         { session }
       );
+      await enqueueEvents(variantCreatedEvents(insertedVariants), session);
+
+      // opening stock goes through the ledger at the chosen location
+      const createdVariants = [];
+      for (const [i, created] of insertedVariants.entries()) {
+        const { variant } = await applyStockChange(
+          {
+            variantId: created._id,
+            delta: variants[i].stock,
+            reason: "adjustment",
+            locationId,
+          },
+          toStockActor(req.user),
+          session
+        );
+        createdVariants.push(variant);
+      }
+
+      // first price history version of each
+      await recordPriceChanges(
+        insertedVariants.map((v) => ({
+          variantId: v._id,
+          after: priceStateOf(v),
+        })),
+        { source: "create", actor: toStockActor(req.user) },
+        session
+      );
 
       await session.commitTransaction();
       session.endSession();
@@ -135,6 +251,7 @@ export const createVariants = catchAsync(
     } catch (error) {
       await session.abortTransaction();
       session.endSession();
+      if (error instanceof AppError) return next(error);
       next(new AppError("Failed to create variants", 500));
     }
   }
@@ -142,177 +259,580 @@ export const createVariants = catchAsync(
 
 // Get variants by product
 export const getVariantsByProduct = catchAsync(
-  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    const { productId } = req.params;
+  async (
+    req: ValidatedRequest<typeof getVariantsByProductSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productId } = req.validated.params;
 
-    if (!productId) next(new AppError("Product ID is required", 400));
+    // check product exists or not (404 if it does not)
+    await getProductClient().assertProductExists(productId);
 
-    // check product exists or not
-    const productResponse = await axios.get(
-      `${process.env.PRODUCT_SERVICE_URL}/api/products/${productId}`
-    );
-    if (!productResponse.data) next(new AppError("Product not found", 404));
+    const { includeArchived } = req.validated.query;
 
-    const variants = await Variant.find({ productId });
+    const variants = await Variant.find({
+      productId,
+      ...(!includeArchived && { status: { $ne: "archived" } }),
+    });
 
-    res.status(200).json({ variants });
+    const presented = await presentVariants(
+      variants,
+      pricingOf(req.validated.query)
+    );
+    res.status(200).json({ variants: presented });
   }
 );
 
-export const getVariantsByProductIds = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const { productIds } = req.body;
-
-    if (!Array.isArray(productIds) || productIds.length === 0) {
-      return next(new AppError("productIds array is required", 400));
-    }
-
-    const variants = await Variant.find({ productId: { $in: productIds } });
+export const getVariantsByProductIds = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getVariantsByProductIdsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productIds } = req.validated.body;
+    const { includeArchived } = req.validated.query;
+
+    const variants = await Variant.find({
+      productId: { $in: productIds },
+      ...(!includeArchived && { status: { $ne: "archived" } }),
+    });
 
-    res.status(200).json({ variants });
-  } catch (err) {
-    next(err);
+    const presented = await presentVariants(
+      variants,
+      pricingOf(req.validated.query)
+    );
+    res.status(200).json({ variants: presented });
   }
-};
+);
 
 // Get variant by ID
 export const getVariantById = catchAsync(
-  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    const { variantId } = req.params;
-
-    if (!variantId) next(new AppError("Variant ID is required", 400));
+  async (
+    req: ValidatedRequest<typeof getVariantByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
 
     const variant = await Variant.findById(variantId);
 
-    if (!variant) next(new AppError("Variant not found", 404));
+    if (!variant) return next(new AppError("Variant not found", 404));
 
-    res.status(200).json({ variant });
+    // lets clients send If-Match on later updates (and If-None-Match => 304)
+    res.set("ETag", documentETag(variant));
+
+    // variant carries on-hand (stock), available (minus reserved) and
+    // the per-location breakdown
+    const presented = await presentVariant(
+      variant,
+      pricingOf(req.validated.query)
+    );
+    res.status(200).json({ variant: presented });
   }
 );
 
 // Get all variants
 export const getAllVariants = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
+  async (
+    req: ValidatedRequest<typeof getAllVariantsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
     const {
-      page = 1,
-      limit = 10,
+      page,
+      limit,
       size,
       minPrice,
       maxPrice,
       inStock,
       isActive,
       search,
-      sortBy = "createdAt",
-      sortOrder = "desc",
-    } = req.query;
-
-    const query: any = {};
-
-    // Filtering by size
-    if (size) {
-      query.size = { $regex: new RegExp(size as string, "i") };
-    }
-
-    // Price range filter
-    if (minPrice || maxPrice) {
-      query.price = {};
-      if (minPrice) query.price.$gte = Number(minPrice);
-      if (maxPrice) query.price.$lte = Number(maxPrice);
-    }
-
-    // In-stock filter
-    if (inStock) {
-      query.stock = inStock === "true" ? { $gt: 0 } : { $lte: 0 };
-    }
-
-    // Active status filter
-    if (isActive) {
-      query.isActive = isActive === "true";
-    }
+      kind,
+      status,
+      includeArchived,
+      sortBy,
+      sortOrder,
+      cursor,
+      includeTotal,
+    } = req.validated.query;
+
+    const query = buildVariantFilter({
+      size,
+      minPrice,
+      maxPrice,
+      inStock,
+      isActive,
+      search,
+      kind,
+      status,
+      includeArchived,
+    });
 
-    // Search by SKU
-    if (search) {
-      query.sku = { $regex: new RegExp(search as string, "i") };
+    // count is optional, it gets expensive on large collections
+    const total = includeTotal
+      ? await Variant.countDocuments(query)
+      : undefined;
+
+    // Cursor pagination => stable under inserts, no skip
+    if (cursor || req.validated.query.pagination === "cursor") {
+      const position = cursor
+        ? decodeVariantCursor(cursor, sortBy, sortOrder)
+        : undefined;
+      const backwards = position?.direction === "prev";
+
+      // walk backwards with the sort flipped, then restore the order
+      const sortOptions = buildVariantSort(
+        sortBy,
+        (sortOrder === "asc") !== backwards ? "asc" : "desc"
+      );
+      const filter = position
+        ? { $and: [query, buildCursorFilter(position)] }
+        : query;
+
+      const found = await Variant.find(filter)
+        .sort(sortOptions)
+        .limit(limit + 1);
+      const hasMore = found.length > limit;
+      const variants = found.slice(0, limit);
+      if (backwards) variants.reverse();
+
+      const hasNext = backwards ? true : hasMore;
+      const hasPrev = backwards ? hasMore : !!position;
+      const cursorFor = (
+        variant: IVariantDocument | undefined,
+        direction: "next" | "prev"
+      ) =>
+        variant
+          ? encodeVariantCursor({
+              sortBy,
+              sortOrder,
+              value: variant.get(sortBy),
+              id: variant._id.toString(),
+              direction,
+            })
+          : null;
+
+      return res.status(200).json({
+        message: "Variants fetched successfully",
+        pagination: {
+          total,
+          limit,
+          hasNext,
+          hasPrev,
+          nextCursor: hasNext
+            ? cursorFor(variants[variants.length - 1], "next")
+            : null,
+          prevCursor: hasPrev ? cursorFor(variants[0], "prev") : null,
+        },
+        variants: await presentVariants(
+          variants,
+          pricingOf(req.validated.query)
+        ),
+      });
     }
 
     // Pagination
-    const skip = (Number(page) - 1) * Number(limit);
-
-    // Sorting
-    const sortOptions: any = {};
-    sortOptions[sortBy as string] = sortOrder === "asc" ? 1 : -1;
+    const skip = (page - 1) * limit;
 
     const variants = await Variant.find(query)
-      .sort(sortOptions)
+      .sort(buildVariantSort(sortBy, sortOrder))
       .skip(skip)
-      .limit(Number(limit));
-
-    const total = await Variant.countDocuments(query);
+      .limit(limit);
 
     res.status(200).json({
       message: "Variants fetched successfully",
       pagination: {
         total,
-        page: Number(page),
-        limit: Number(limit),
-        totalPages: Math.ceil(total / Number(limit)),
+        page,
+        limit,
+        totalPages: total !== undefined ? Math.ceil(total / limit) : undefined,
       },
-      variants,
+      variants: await presentVariants(variants, pricingOf(req.validated.query)),
     });
   }
 );
 
-// Update stock
+// Update stock => signed change, recorded in the stock ledger
 export const updateStock = catchAsync(
-  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    const { variantId } = req.params;
-    const { stock } = req.body;
+  async (
+    req: ValidatedRequest<typeof updateStockSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { stock, reason, referenceId, locationId, lotId, lot } =
+      req.validated.body;
+
+    const current = await Variant.findById(variantId);
+    if (!current) return next(new AppError("Variant not found", 404));
+    assertIfMatch(req, current);
 
-    if (!variantId) next(new AppError("Variant ID is required", 400));
+    const session = await startSession();
+    session.startTransaction();
 
-    const variant: IVariantDocument | null = await Variant.findById(variantId);
+    try {
+      const { variant } = await applyStockChange(
+        {
+          variantId,
+          delta: stock,
+          reason: reason || (stock > 0 ? "restock" : "adjustment"),
+          referenceId,
+          locationId,
+          lotId,
+          lot,
+          // re-checked against the write, not just the read above
+          expectedVersion: req.get("If-Match")
+            ? { __v: current.__v, updatedAt: current.updatedAt }
+            : undefined,
+        },
+        toStockActor(req.user),
+        session
+      );
 
-    if (!variant) next(new AppError("Variant not found", 404));
+      await session.commitTransaction();
+      session.endSession();
 
-    if (variant) {
-      variant.stock += stock;
-      await variant.save();
+      res.set("ETag", documentETag(variant));
       res.status(200).json({ message: "Stock updated successfully", variant });
+    } catch (error: any) {
+      await session.abortTransaction();
+      session.endSession();
+      if (error instanceof AppError) return next(error);
+      // WriteConflict: another write landed on the variant mid-transaction
+      if (error.code === 112) {
+        return req.get("If-Match")
+          ? next(
+              new AppError(
+                "Variant was modified by someone else, reload and try again",
+                412
+              )
+            )
+          : next(new AppError("Stock changed concurrently, please retry", 409));
+      }
+      return next(new AppError("Failed to update stock", 500));
     }
+  }
+);
+
+// Update reorder point / reorder quantity
+export const updateReorderSettings = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updateReorderSettingsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { reorderPoint, reorderQuantity } = req.validated.body;
+
+    const variant = await Variant.findById(variantId);
+    if (!variant) return next(new AppError("Variant not found", 404));
+    assertIfMatch(req, variant);
+
+    // null clears the threshold
+    if (reorderPoint !== undefined)
+      variant.reorderPoint = reorderPoint ?? undefined;
+    if (reorderQuantity !== undefined)
+      variant.reorderQuantity = reorderQuantity ?? undefined;
+
+    await variant.save();
 
-    next(new AppError("Failed to update stock", 500));
+    // a raised threshold can put the variant below it straight away, a
+    // lowered or cleared one can resolve its alert
+    await evaluateReorderPoint(variant);
+
+    res.set("ETag", documentETag(variant));
+    res.status(200).json({
+      message: "Reorder settings updated successfully",
+      variant,
+    });
   }
 );
 
-// Update discount => single variant
-export const updateDiscount = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
-    const { variantId } = req.params;
-    const { discountPercent } = req.body;
+// Update variant => size, price and reorder settings; the SKU is kept
+export const updateVariant = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updateVariantSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { size, price, reorderPoint, reorderQuantity } = req.validated.body;
 
-    if (discountPercent < 0 || discountPercent > 100) {
+    const variant = await Variant.findById(variantId);
+    if (!variant) return next(new AppError("Variant not found", 404));
+    assertIfMatch(req, variant);
+
+    if (price !== undefined && variant.kind === "bundle") {
+      return next(
+        new AppError(
+          "Bundle prices are changed through the bundle pricing",
+          400
+        )
+      );
+    }
+
+    // productId + size stays unique
+    if (size !== undefined && size !== variant.size) {
+      const taken = await Variant.exists({
+        productId: variant.productId,
+        size,
+        _id: { $ne: variant._id },
+      });
+      if (taken) {
+        return next(new AppError("Variant already exists for this size", 400));
+      }
+      variant.size = size;
+    }
+
+    const before = priceStateOf(variant);
+    const repriced = price !== undefined && price !== variant.price;
+    if (repriced) setBasePrice(variant, price);
+
+    // null clears the threshold
+    if (reorderPoint !== undefined)
+      variant.reorderPoint = reorderPoint ?? undefined;
+    if (reorderQuantity !== undefined)
+      variant.reorderQuantity = reorderQuantity ?? undefined;
+
+    const actor = toStockActor(req.user);
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      await variant.save({ session });
+      if (repriced) {
+        await recordPriceChanges(
+          [{ variantId: variant._id, before, after: priceStateOf(variant) }],
+          { source: "price_edit", actor },
+          session
+        );
+        // bundles priced from their components follow the new price
+        await syncBundlePrices([variant._id], actor, session);
+      }
+
+      await session.commitTransaction();
+    } catch (error: any) {
+      await session.abortTransaction();
+      // another request took the size in the meantime
+      if (error.code === 11000) {
+        return next(new AppError("Variant already exists for this size", 400));
+      }
+      return next(error);
+    } finally {
+      session.endSession();
+    }
+
+    if (reorderPoint !== undefined) {
+      await evaluateReorderPoint(variant);
+    }
+
+    res.set("ETag", documentETag(variant));
+    res.status(200).json({
+      message: "Variant updated successfully",
+      variant,
+    });
+  }
+);
+
+// Bulk price change by product => move prices by an amount or a percentage
+export const bulkPriceChangeByProductId = catchAsync(
+  async (
+    req: ValidatedRequest<typeof bulkPriceChangeSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productId } = req.validated.params;
+    const { type, value, variantIds } = req.validated.body;
+
+    // bundles are priced through their own pricing (or follow components)
+    const filter: any = { productId, kind: { $ne: "bundle" } };
+    const ids = variantIds && [...new Set(variantIds)];
+    if (ids) filter._id = { $in: ids };
+
+    const variants = await Variant.find(filter);
+    if (!variants.length) {
+      return next(new AppError("No variants found for this product", 404));
+    }
+    if (ids && variants.length !== ids.length) {
+      return next(
+        new AppError(
+          "Some variants are not standard variants of this product",
+          400
+        )
+      );
+    }
+
+    const changed: { variant: IVariantDocument; before: PriceState }[] = [];
+    const invalid: string[] = [];
+
+    for (const variant of variants) {
+      // base prices are whole units
+      const price = roundAmount(
+        type === "amount"
+          ? variant.price + value
+          : variant.price * (1 + value / 100),
+        0
+      );
+      if (price <= 0) {
+        invalid.push(variant.sku);
+        continue;
+      }
+      if (price === variant.price) continue;
+
+      const before = priceStateOf(variant);
+      setBasePrice(variant, price);
+      changed.push({ variant, before });
+    }
+
+    if (invalid.length) {
       return next(
-        new AppError("Discount percent must be between 0 and 100", 400)
+        new AppError(
+          `Price would drop to 0 or below for: ${invalid.join(", ")}`,
+          400
+        )
       );
     }
 
+    if (changed.length) {
+      const actor = toStockActor(req.user);
+      const session = await startSession();
+      session.startTransaction();
+
+      try {
+        // versioned saves: a variant edited meanwhile fails the batch (412)
+        for (const { variant } of changed) await variant.save({ session });
+        await recordPriceChanges(
+          changed.map(({ variant, before }) => ({
+            variantId: variant._id,
+            before,
+            after: priceStateOf(variant),
+          })),
+          { source: "price_edit", actor },
+          session
+        );
+        await syncBundlePrices(
+          changed.map(({ variant }) => variant._id),
+          actor,
+          session
+        );
+
+        await session.commitTransaction();
+      } catch (error) {
+        await session.abortTransaction();
+        return next(error);
+      } finally {
+        session.endSession();
+      }
+    }
+
+    res.status(200).json({
+      message: "Prices updated successfully",
+      updatedCount: changed.length,
+      variants: changed.map(({ variant }) => variant),
+    });
+  }
+);
+
+// Get variants at or below their reorder point, most urgent first
+export const getLowStockVariants = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getLowStockVariantsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { page, limit, productId } = req.validated.query;
+
+    const match: any = {
+      isActive: true,
+      reorderPoint: { $ne: null },
+      $expr: { $lte: ["$stock", "$reorderPoint"] },
+    };
+    if (productId) match.productId = new Types.ObjectId(productId);
+
+    const skip = (page - 1) * limit;
+
+    const [result] = await Variant.aggregate([
+      { $match: match },
+      {
+        $addFields: {
+          shortfall: { $subtract: ["$reorderPoint", "$stock"] },
+          // share of the reorder point still on hand; 0 = out of stock
+          stockRatio: {
+            $divide: ["$stock", { $max: ["$reorderPoint", 1] }],
+          },
+        },
+      },
+      {
+        $facet: {
+          variants: [
+            { $sort: { stockRatio: 1, shortfall: -1, _id: 1 } },
+            { $skip: skip },
+            { $limit: limit },
+          ],
+          total: [{ $count: "count" }],
+        },
+      },
+    ]);
+
+    const total = result.total[0]?.count || 0;
+
+    res.status(200).json({
+      message: "Low stock variants fetched successfully",
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      variants: result.variants,
+    });
+  }
+);
+
+// Update discount => single variant
+export const updateDiscount = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updateDiscountSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { discountPercent } = req.validated.body;
+
     const variant = await Variant.findById(variantId);
     if (!variant) {
       return next(new AppError("Variant not found", 404));
     }
+    assertIfMatch(req, variant);
 
+    const before = priceStateOf(variant);
     variant.discountPercent = discountPercent;
-    variant.discountPrice =
-      discountPercent > 0
-        ? Math.round(variant.price - (variant.price * discountPercent) / 100)
-        : 0;
+    variant.discountPrice = computeDiscountPrice(
+      variant.price,
+      discountPercent
+    );
 
-    await variant.save();
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      await variant.save({ session });
+      await recordPriceChanges(
+        [{ variantId: variant._id, before, after: priceStateOf(variant) }],
+        { source: "discount", actor: toStockActor(req.user) },
+        session
+      );
 
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
+    }
+
+    res.set("ETag", documentETag(variant));
     res.status(200).json({
       message: "Discount updated successfully",
       variant,
@@ -320,127 +840,310 @@ export const updateDiscount = catchAsync(
   }
 );
 
-// update status
+// update status => draft / active / inactive (isActive follows)
 export const updateVariantStatus = catchAsync(
-  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    const { variantId } = req.params;
-    const { isActive } = req.body;
-
-    if (!variantId) next(new AppError("Variant ID is required", 400));
+  async (
+    req: ValidatedRequest<typeof updateVariantStatusSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { isActive, status } = req.validated.body;
 
     const variant: IVariantDocument | null = await Variant.findById(variantId);
 
-    if (!variant) next(new AppError("Variant not found", 404));
+    if (!variant) return next(new AppError("Variant not found", 404));
+    assertIfMatch(req, variant);
+    if (variant.status === "archived") {
+      return next(new AppError("Variant is archived, restore it first", 409));
+    }
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      await changeVariantStatus(
+        variant,
+        status ?? (isActive ? "active" : "inactive"),
+        session
+      );
 
-    if (variant) {
-      variant.isActive = isActive;
-      await variant.save();
-      res.status(200).json({ message: "Status updated successfully", variant });
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
     }
 
-    next(new AppError("Failed to update status", 500));
+    res.set("ETag", documentETag(variant));
+    res.status(200).json({ message: "Status updated successfully", variant });
   }
 );
 
-export const bulkUpdateStock = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
-    const updates: StockUpdate[] = req.body.updates;
+// Archive variant => not sellable and hidden from listings, kept for history
+export const archiveVariant = catchAsync(
+  async (
+    req: ValidatedRequest<typeof archiveVariantSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
 
-    if (!Array.isArray(updates) || updates.length === 0) {
-      return next(new AppError("Updates array is required", 400));
+    const variant = await Variant.findById(variantId);
+    if (!variant) return next(new AppError("Variant not found", 404));
+    assertIfMatch(req, variant);
+    if (variant.status === "archived") {
+      return next(new AppError("Variant is already archived", 409));
     }
 
-    const bulkOps = [];
-
-    for (const update of updates) {
-      const { variantId, quantity, type } = update;
+    const session = await startSession();
+    session.startTransaction();
 
-      if (
-        !variantId ||
-        quantity == null ||
-        !["increase", "decrease", "set"].includes(type)
-      ) {
-        return next(new AppError("Invalid update format", 400));
-      }
+    try {
+      await changeVariantStatus(variant, "archived", session);
 
-      // Fetch current variant to validate
-      const variant = await Variant.findById(variantId);
-      if (!variant) {
-        return next(new AppError(`Variant not found: ${variantId}`, 404));
-      }
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
+    }
 
-      let newStock = variant.stock;
+    res.set("ETag", documentETag(variant));
+    res.status(200).json({ message: "Variant archived successfully", variant });
+  }
+);
 
-      if (type === "increase") {
-        newStock += quantity;
-      } else if (type === "decrease") {
-        if (variant.stock < quantity) {
-          return next(
-            new AppError(
-              `Not enough stock to reduce for variant: ${variantId}`,
-              400
-            )
-          );
-        }
-        newStock -= quantity;
-      } else if (type === "set") {
-        newStock = quantity;
-      }
+// Restore variant => back from the archive (inactive unless told otherwise)
+export const restoreVariant = catchAsync(
+  async (
+    req: ValidatedRequest<typeof restoreVariantSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+    const { status } = req.validated.body;
 
-      bulkOps.push({
-        updateOne: {
-          filter: { _id: variantId },
-          update: { $set: { stock: newStock } },
-        },
-      });
+    const variant = await Variant.findById(variantId);
+    if (!variant) return next(new AppError("Variant not found", 404));
+    assertIfMatch(req, variant);
+    if (variant.status !== "archived") {
+      return next(new AppError("Variant is not archived", 409));
     }
 
-    if (bulkOps.length === 0) {
-      return next(new AppError("No valid stock updates found", 400));
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      await changeVariantStatus(variant, status, session);
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
     }
 
-    await Variant.bulkWrite(bulkOps);
+    res.set("ETag", documentETag(variant));
+    res.status(200).json({ message: "Variant restored successfully", variant });
+  }
+);
+
+// Delete variant => hard delete of a draft / archived variant nothing uses
+export const deleteVariantById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof deleteVariantSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
+
+    const variant = await Variant.findById(variantId);
+    if (!variant) return next(new AppError("Variant not found", 404));
+    assertIfMatch(req, variant);
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      await deleteVariant(variant, session);
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
+    }
 
     res.status(200).json({
-      message: "Stock updated successfully",
+      message: "Variant deleted successfully",
+      variantId: variant._id,
+      sku: variant.sku,
     });
   }
 );
 
-// update discount => by Product Id
-export const updateDiscountByProductId = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
-    const { productId } = req.params;
-    const { discountPercent } = req.body;
+// Archive all variants of a product (product-service, on product delete)
+export const archiveVariantsByProductId = catchAsync(
+  async (
+    req: ValidatedRequest<typeof archiveVariantsByProductSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productId } = req.validated.params;
 
-    if (!productId) {
-      return next(new AppError("Product ID is required", 400));
+    const session = await startSession();
+    session.startTransaction();
+
+    let variants: IVariantDocument[];
+    try {
+      variants = await archiveProductVariants(productId, session);
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
     }
 
-    if (discountPercent < 0 || discountPercent > 100) {
+    res.status(200).json({
+      message: "Variants archived successfully",
+      archivedCount: variants.length,
+      variants,
+    });
+  }
+);
+
+/**
+ * Bulk stock update (all-or-nothing).
+ * - increase / decrease are applied as guarded atomic increments, so a
+ *   concurrent sale can never push a decrease below zero or below reserved
+ * - set overwrites the count at the given (or default) location
+ * - the whole batch runs in one transaction, retried on transient conflicts
+ * - returns before / after aggregate stock for every line, in request order
+ */
+export const bulkUpdateStock = catchAsync(
+  async (
+    req: ValidatedRequest<typeof bulkUpdateStockSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { updates } = req.validated.body;
+
+    const changes: StockChange[] = updates.map((update) => {
+      const {
+        variantId,
+        quantity,
+        type,
+        reason,
+        referenceId,
+        locationId,
+        lotId,
+        lot,
+      } = update;
+      const base = {
+        variantId,
+        reason: reason || (type === "increase" ? "restock" : "adjustment"),
+        referenceId,
+        locationId,
+        lotId,
+        lot,
+      } as const;
+
+      return type === "set"
+        ? { ...base, setTo: quantity }
+        : { ...base, delta: type === "increase" ? quantity : -quantity };
+    });
+
+    const session = await startSession();
+    let results: StockChangeResult[] = [];
+
+    try {
+      await session.withTransaction(async () => {
+        ({ results } = await applyStockChanges(
+          changes,
+          toStockActor(req.user),
+          session
+        ));
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) return next(error);
       return next(
-        new AppError("Discount percent must be between 0 and 100", 400)
+        new AppError("Failed to update stock: " + error.message, 500)
       );
+    } finally {
+      session.endSession();
     }
 
-    // check product exists or not
-    const productResponse = await axios.get(
-      `${process.env.PRODUCT_SERVICE_URL}/api/products/${productId}`
-    );
-    if (!productResponse.data) next(new AppError("Product not found", 404));
+    res.status(200).json({
+      message: "Stock updated successfully",
+      results: results.map((result, i) => ({
+        variantId: result.variantId,
+        type: updates[i].type,
+        quantity: updates[i].quantity,
+        locationId: updates[i].locationId,
+        before: result.before,
+        after: result.after,
+        lots: result.lots,
+      })),
+    });
+  }
+);
+
+// update discount => by Product Id
+export const updateDiscountByProductId = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updateDiscountByProductIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productId } = req.validated.params;
+    const { discountPercent } = req.validated.body;
+
+    // check product exists or not (404 if it does not)
+    await getProductClient().assertProductExists(productId);
 
     const variants = await Variant.find({ productId });
     if (variants.length === 0) {
       return next(new AppError("No variants found for this product", 404));
     }
 
-    for (const variant of variants) {
-      variant.discountPercent = discountPercent;
-      variant.discountPrice =
-        discountPercent > 0
-          ? Math.round(variant.price - (variant.price * discountPercent) / 100)
-          : 0;
-      await variant.save();
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      const priceChanges = [];
+      for (const variant of variants) {
+        const before = priceStateOf(variant);
+        variant.discountPercent = discountPercent;
+        variant.discountPrice = computeDiscountPrice(
+          variant.price,
+          discountPercent
+        );
+        await variant.save({ session });
+        priceChanges.push({
+          variantId: variant._id,
+          before,
+          after: priceStateOf(variant),
+        });
+      }
+      await recordPriceChanges(
+        priceChanges,
+        { source: "discount", actor: toStockActor(req.user) },
+        session
+      );
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
     }
 
     res.status(200).json({
@@ -470,12 +1173,20 @@ export const bulkUpdateDiscountFromProductService = catchAsync(
         productId: { $in: productIds },
       }).session(session);
 
+      const priceChanges = [];
       for (const variant of variants) {
+        const before = priceStateOf(variant);
         const discountAmount = (variant.price * discountPercent) / 100;
         variant.discountPercent = discountPercent;
         variant.discountPrice = Math.round(variant.price - discountAmount);
         await variant.save({ session });
+        priceChanges.push({
+          variantId: variant._id,
+          before,
+          after: priceStateOf(variant),
+        });
       }
+      await recordPriceChanges(priceChanges, { source: "discount" }, session);
 
       await session.commitTransaction();
       return res
@@ -492,27 +1203,39 @@ export const bulkUpdateDiscountFromProductService = catchAsync(
 
 // bulk update discount from product-service
 export const removeDiscountFromProductService = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
+  async (
+    req: ValidatedRequest<typeof removeDiscountFromProductServiceSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productIds } = req.validated.body;
+
     const session = await startSession();
     session.startTransaction();
 
     try {
-      const { productIds } = req.body;
-
-      if (!Array.isArray(productIds) || productIds.length === 0) {
-        throw new Error("Product IDs must be provided");
-      }
-
       // Fetch variants
       const variants = await Variant.find({
         productId: { $in: productIds },
       }).session(session);
 
+      const priceChanges = [];
       for (const variant of variants) {
+        const before = priceStateOf(variant);
         variant.discountPercent = 0;
         variant.discountPrice = 0;
         await variant.save({ session });
+        priceChanges.push({
+          variantId: variant._id,
+          before,
+          after: priceStateOf(variant),
+        });
       }
+      await recordPriceChanges(
+        priceChanges,
+        { source: "discount", actor: toStockActor(req.user) },
+        session
+      );
 
       await session.commitTransaction();
       return res
@@ -529,20 +1252,45 @@ export const removeDiscountFromProductService = catchAsync(
 
 // Remove discount by variantId
 export const removeDiscountByVariantId = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
-    const { variantId } = req.params;
+  async (
+    req: ValidatedRequest<typeof removeDiscountByVariantIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { variantId } = req.validated.params;
 
     const variant = await Variant.findById(variantId);
     if (!variant) {
       return next(new AppError("Variant not found", 404));
     }
 
+    assertIfMatch(req, variant);
+
     // Reset discount
+    const before = priceStateOf(variant);
     variant.discountPercent = 0;
     variant.discountPrice = 0;
 
-    await variant.save();
+    const session = await startSession();
+    session.startTransaction();
 
+    try {
+      await variant.save({ session });
+      await recordPriceChanges(
+        [{ variantId: variant._id, before, after: priceStateOf(variant) }],
+        { source: "discount", actor: toStockActor(req.user) },
+        session
+      );
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
+    }
+
+    res.set("ETag", documentETag(variant));
     res.status(200).json({
       message: "Discount removed successfully",
       variant,
@@ -552,26 +1300,49 @@ export const removeDiscountByVariantId = catchAsync(
 
 //remove dicount by productId
 export const removeDiscountByProductId = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
-    const { productId } = req.params;
+  async (
+    req: ValidatedRequest<typeof removeDiscountByProductIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productId } = req.validated.params;
 
-    if (!productId) next(new AppError("Product ID is required", 400));
-
-    // check product exists or not
-    const productResponse = await axios.get(
-      `${process.env.PRODUCT_SERVICE_URL}/api/products/${productId}`
-    );
-    if (!productResponse.data) next(new AppError("Product not found", 404));
+    // check product exists or not (404 if it does not)
+    await getProductClient().assertProductExists(productId);
 
     const variants = await Variant.find({ productId });
     if (variants.length === 0) {
       return next(new AppError("No variants found for this product", 404));
     }
 
-    for (const variant of variants) {
-      variant.discountPercent = 0;
-      variant.discountPrice = 0;
-      await variant.save();
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      const priceChanges = [];
+      for (const variant of variants) {
+        const before = priceStateOf(variant);
+        variant.discountPercent = 0;
+        variant.discountPrice = 0;
+        await variant.save({ session });
+        priceChanges.push({
+          variantId: variant._id,
+          before,
+          after: priceStateOf(variant),
+        });
+      }
+      await recordPriceChanges(
+        priceChanges,
+        { source: "discount", actor: toStockActor(req.user) },
+        session
+      );
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
     }
 
     res.status(200).json({
@@ -601,7 +1372,34 @@ export const bulkRemoveDiscount = catchAsync(
       },
     }));
 
-    const result = await Variant.bulkWrite(bulkOps);
+    const variants = await Variant.find({
+      _id: { $in: updates.map((u) => u.variantId) },
+    });
+
+    const session = await startSession();
+    session.startTransaction();
+
+    let result;
+    try {
+      result = await Variant.bulkWrite(bulkOps, { session });
+
+      await recordPriceChanges(
+        variants.map((v) => ({
+          variantId: v._id,
+          before: priceStateOf(v),
+          after: { price: v.price, discountPercent: 0, discountPrice: 0 },
+        })),
+        { source: "discount" },
+        session
+      );
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
+    }
 
     res.status(200).json({
       message: "Discounts removed successfully",
@@ -620,23 +1418,12 @@ export const bulkRemoveDiscount = catchAsync(
  */
 
 export const prepareBulkDiscount = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
-    // internal auth check
-    if (req.headers["x-internal-key"] !== process.env.INTERNAL_API_KEY) {
-      return next(new AppError("Unauthorized", 403));
-    }
-
-    const { productIds, discountPercent, initiatedBy } = req.body;
-    if (!Array.isArray(productIds) || productIds.length === 0) {
-      return next(new AppError("productIds required", 400));
-    }
-    if (
-      typeof discountPercent !== "number" ||
-      discountPercent < 0 ||
-      discountPercent > 100
-    ) {
-      return next(new AppError("discountPercent must be 0..100", 400));
-    }
+  async (
+    req: ValidatedRequest<typeof prepareBulkDiscountSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { productIds, discountPercent, initiatedBy } = req.validated.body;
 
     const session = await startSession();
     session.startTransaction();
@@ -658,12 +1445,12 @@ export const prepareBulkDiscount = catchAsync(
         oldDiscountPrice: v.discountPrice || 0,
       }));
 
+      const operationId = uuidv4();
+      logger.info(`Bulk discount operationId: ${operationId}`);
+
       // compute new discountPrice and update each variant
       const bulkOps = variants.map((v) => {
-        const newDiscountPrice =
-          discountPercent > 0
-            ? Math.round(v.price - (v.price * discountPercent) / 100)
-            : 0;
+        const newDiscountPrice = computeDiscountPrice(v.price, discountPercent);
         return {
           updateOne: {
             filter: { _id: v._id },
@@ -678,9 +1465,27 @@ export const prepareBulkDiscount = catchAsync(
         await Variant.bulkWrite(bulkOps, { session });
       }
 
+      await recordPriceChanges(
+        variants.map((v) => ({
+          variantId: v._id,
+          before: priceStateOf(v),
+          after: {
+            price: v.price,
+            discountPercent,
+            discountPrice: computeDiscountPrice(v.price, discountPercent),
+          },
+        })),
+        {
+          source: "bulk_discount",
+          referenceId: operationId,
+          actor: initiatedBy ? { userId: initiatedBy } : undefined,
+          // announced on commit, a rollback never becomes visible
+          emitEvents: false,
+        },
+        session
+      );
+
       // save audit record
-      const operationId = uuidv4();
-      logger.info(`Bulk discount operationId: ${operationId}`);
       const audit = await Audit.create(
         [
           {
@@ -689,6 +1494,7 @@ export const prepareBulkDiscount = catchAsync(
             variantCount: variants.length,
             discountPercent,
             status: "pending",
+            expiresAt: pendingExpiry(),
             createdBy: initiatedBy || null,
             items,
           },
@@ -699,7 +1505,11 @@ export const prepareBulkDiscount = catchAsync(
       await session.commitTransaction();
       session.endSession();
 
-      res.status(200).json({ operationId, variantCount: variants.length });
+      res.status(200).json({
+        operationId,
+        variantCount: variants.length,
+        expiresAt: audit[0].expiresAt,
+      });
     } catch (err: any) {
       await session.abortTransaction();
       session.endSession();
@@ -714,22 +1524,74 @@ export const prepareBulkDiscount = catchAsync(
  * Commit: mark the pending audit as committed (finalize)
  */
 export const commitBulkDiscount = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
-    if (req.headers["x-internal-key"] !== process.env.INTERNAL_API_KEY) {
-      return next(new AppError("Unauthorized", 403));
-    }
-
-    const { operationId } = req.body;
+  async (
+    req: ValidatedRequest<typeof bulkDiscountOperationSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { operationId } = req.validated.body;
     logger.info(`Committing bulk discount operationId: ${operationId}`);
-    if (!operationId) return next(new AppError("operationId required", 400));
 
     const audit = await Audit.findOne({ operationId });
     if (!audit) return next(new AppError("Operation not found", 404));
     if (audit.status !== "pending")
       return next(new AppError("Operation not pending", 400));
+    // past its timeout the reaper owns it, even if it has not run yet
+    if (isPendingExpired(audit))
+      return next(new AppError("Operation expired", 409));
+
+    const session = await startSession();
+    session.startTransaction();
 
-    audit.status = "committed";
-    await audit.save();
+    try {
+      // conditional so a concurrent reaper/rollback cannot be overwritten
+      const committed = await Audit.findOneAndUpdate(
+        { operationId, status: "pending" },
+        { status: "committed" },
+        { session }
+      );
+      if (!committed) throw new AppError("Operation not pending", 400);
+
+      // the discount becomes final now, so this is when it is announced
+      const variants = await Variant.find({
+        _id: { $in: committed.items.map((item) => item.variantId) },
+      })
+        .select("price discountPercent discountPrice")
+        .session(session);
+      const oldValues = new Map(
+        committed.items.map((item) => [item.variantId.toString(), item])
+      );
+      await enqueueEvents(
+        priceEvents(
+          variants.map((v) => {
+            const item = oldValues.get(v._id.toString())!;
+            const previous = {
+              price: v.price,
+              discountPercent: item.oldDiscountPercent,
+              discountPrice: item.oldDiscountPrice,
+            };
+            const current = priceStateOf(v);
+            return {
+              variantId: v._id,
+              ...current,
+              previous,
+              changedFields: (
+                ["discountPercent", "discountPrice"] as const
+              ).filter((field) => previous[field] !== current[field]),
+            };
+          }),
+          "bulk_discount"
+        ),
+        session
+      );
+
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      return next(error);
+    } finally {
+      session.endSession();
+    }
 
     res.status(200).json({ message: "Committed", operationId });
   }
@@ -739,44 +1601,23 @@ export const commitBulkDiscount = catchAsync(
  * Rollback: revert changes using audit.items (must be called if Product Service fails)
  */
 export const rollbackBulkDiscount = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
-    if (req.headers["x-internal-key"] !== process.env.INTERNAL_API_KEY) {
-      return next(new AppError("Unauthorized", 403));
-    }
-
-    const { operationId } = req.body;
-    if (!operationId) return next(new AppError("operationId required", 400));
+  async (
+    req: ValidatedRequest<typeof bulkDiscountOperationSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { operationId } = req.validated.body;
 
     const session = await startSession();
     session.startTransaction();
 
     try {
-      const audit = await Audit.findOne({ operationId });
-      if (!audit) return next(new AppError("Operation not found", 404));
+      const audit = await Audit.findOne({ operationId }).session(session);
+      if (!audit) throw new AppError("Operation not found", 404);
       if (audit.status !== "pending")
-        return next(new AppError("Operation not pending", 400));
+        throw new AppError("Operation not pending", 400);
 
-      const items = audit.items;
-      const bulkOps = items.map((item) => {
-        return {
-          updateOne: {
-            filter: { _id: item.variantId },
-            update: {
-              $set: {
-                discountPercent: item.oldDiscountPercent,
-                discountPrice: item.oldDiscountPrice,
-              },
-            },
-          },
-        };
-      });
-
-      if (bulkOps.length) {
-        await Variant.bulkWrite(bulkOps, { session });
-      }
-
-      audit.status = "rolledback";
-      await audit.save();
+      await revertBulkDiscount(audit, "rolledback", session);
 
       await session.commitTransaction();
       session.endSession();
@@ -785,6 +1626,7 @@ export const rollbackBulkDiscount = catchAsync(
     } catch (error: any) {
       await session.abortTransaction();
       session.endSession();
+      if (error instanceof AppError) return next(error);
       return next(
         new AppError("Failed rolling back bulk discount: " + error.message, 500)
       );
@@ -792,14 +1634,76 @@ export const rollbackBulkDiscount = catchAsync(
   }
 );
 
+/**
+ * Operations: list bulk discount operations by status (internal)
+ */
+export const getBulkDiscountOperations = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getBulkDiscountOperationsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { status, page, limit } = req.validated.query;
+
+    const query: any = {};
+    if (status) query.status = status;
+
+    const skip = (page - 1) * limit;
+
+    // items can be large; fetch a single operation to inspect them
+    const operations = await Audit.find(query)
+      .select("-items")
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await Audit.countDocuments(query);
+
+    res.status(200).json({
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      operations,
+    });
+  }
+);
+
+/**
+ * Operation: inspect a single bulk discount operation with its items (internal)
+ */
+export const getBulkDiscountOperation = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getBulkDiscountOperationSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { operationId } = req.validated.params;
+
+    const operation = await Audit.findOne({ operationId });
+    if (!operation) return next(new AppError("Operation not found", 404));
+
+    res.status(200).json({ operation });
+  }
+);
+
 export const getAllVariantsByIds = catchAsync(
-  async (req: Request, res: Response, next: NextFunction) => {
-    const ids = (req.query.variantIds as string)?.split(",") || [];
+  async (
+    req: ValidatedRequest<typeof getAllVariantsByIdsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const ids = req.validated.query.variantIds;
 
     // Convert all IDs to Mongo ObjectId type
     const objectIds = ids.map((id) => new Types.ObjectId(id));
-    console.log(objectIds);
     const variants = await Variant.find({ _id: { $in: objectIds } });
-    res.status(200).json({ variants });
+    const presented = await presentVariants(
+      variants,
+      pricingOf(req.validated.query)
+    );
+    res.status(200).json({ variants: presented });
   }
 );
@@ -0,0 +1,126 @@
+import { NextFunction, Response } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { startSession } from "mongoose";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import Variant from "../models/variant.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  exportVariantsSchema,
+  importVariantsSchema,
+} from "../validations/variant.validation";
+import {
+  buildVariantFilter,
+  buildVariantSort,
+} from "../services/variantQuery.service";
+import {
+  applyVariantImport,
+  EXPORT_COLUMNS,
+  exportRow,
+  planVariantImport,
+  summarizeImport,
+} from "../services/variantCsv.service";
+import { toStockActor } from "../services/stock.service";
+import { toCsvLine } from "../utils/csv";
+import logger from "../utils/logger";
+
+// Export variants as CSV, same filters and sorting as getAllVariants
+export const exportVariantsCsv = catchAsync(
+  async (
+    req: ValidatedRequest<typeof exportVariantsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { sortBy, sortOrder, ...filters } = req.validated.query;
+
+    const cursor = Variant.find(buildVariantFilter(filters))
+      .sort(buildVariantSort(sortBy, sortOrder))
+      .cursor();
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="variants-${date}.csv"`
+    );
+
+    async function* lines() {
+      yield toCsvLine([...EXPORT_COLUMNS]);
+      for await (const variant of cursor) yield toCsvLine(exportRow(variant));
+    }
+
+    // pipeline waits for the client to drain; once headers are out an error
+    // can only cut the download short
+    try {
+      await pipeline(Readable.from(lines()), res);
+    } catch (error: any) {
+      logger.error(`CSV export failed: ${error.message}`);
+      await cursor.close().catch(() => {});
+      if (!res.headersSent) return next(error);
+      res.destroy(error);
+    }
+  }
+);
+
+/**
+ * Import variants from CSV (Content-Type: text/csv). mode=dry-run (default)
+ * only reports what each row would do; mode=commit applies every row in one
+ * transaction, or nothing if any row has errors.
+ */
+export const importVariantsCsv = catchAsync(
+  async (
+    req: ValidatedRequest<typeof importVariantsSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { mode } = req.validated.query;
+
+    const plan = await planVariantImport(req.validated.body);
+    const rows = plan.rows.map((r) => r.result);
+
+    if (mode === "dry-run") {
+      return res.status(200).json({
+        message: "Dry run completed, nothing was written",
+        mode,
+        summary: summarizeImport(rows),
+        rows,
+      });
+    }
+
+    if (plan.hasErrors) {
+      return res.status(400).json({
+        message: "Import has errors, nothing was written",
+        mode,
+        summary: summarizeImport(rows),
+        rows: rows.filter((r) => r.errors),
+      });
+    }
+
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      const results = await applyVariantImport(
+        plan,
+        toStockActor(req.user),
+        session
+      );
+
+      await session.commitTransaction();
+      session.endSession();
+
+      res.status(200).json({
+        message: "Import applied successfully",
+        mode,
+        summary: summarizeImport(results),
+        rows: results,
+      });
+    } catch (error) {
+      await session.abortTransaction();
+      session.endSession();
+      if (error instanceof AppError) return next(error);
+      next(new AppError("Failed to import variants", 500));
+    }
+  }
+);
@@ -0,0 +1,233 @@
+import { NextFunction, Response } from "express";
+import { catchAsync } from "../utils/catchAsync";
+import { AppError } from "../utils/appError";
+import WebhookSubscription from "../models/webhookSubscription.model";
+import WebhookDelivery from "../models/webhookDelivery.model";
+import { ValidatedRequest } from "../middlewares/validate.middleware";
+import {
+  createWebhookSchema,
+  getWebhookDeliveriesSchema,
+  getWebhooksSchema,
+  rotateWebhookSecretSchema,
+  updateWebhookSchema,
+  webhookByIdSchema,
+  webhookDeliveryByIdSchema,
+} from "../validations/webhook.validation";
+import {
+  generateWebhookSecret,
+  replayWebhookDelivery,
+} from "../services/webhook.service";
+
+// Register a webhook => the secret is only shown in this response
+export const createWebhook = catchAsync(
+  async (
+    req: ValidatedRequest<typeof createWebhookSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { url, events, secret, description } = req.validated.body;
+
+    const subscription = await WebhookSubscription.create({
+      url,
+      events,
+      secret: secret || generateWebhookSecret(),
+      description,
+      createdBy: req.user?.userId,
+    });
+
+    res.status(201).json({
+      message: "Webhook created successfully",
+      subscription,
+    });
+  }
+);
+
+// List webhooks
+export const getWebhooks = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getWebhooksSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { isActive, event } = req.validated.query;
+
+    const query: any = {};
+    if (isActive != null) query.isActive = isActive;
+    if (event) query.events = event;
+
+    const subscriptions = await WebhookSubscription.find(query).sort({
+      createdAt: -1,
+    });
+
+    res.status(200).json({ subscriptions });
+  }
+);
+
+// Get webhook by ID with delivery counts
+export const getWebhookById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof webhookByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { subscriptionId } = req.validated.params;
+
+    const subscription = await WebhookSubscription.findById(subscriptionId);
+    if (!subscription) return next(new AppError("Webhook not found", 404));
+
+    const counts = await WebhookDelivery.aggregate([
+      { $match: { subscriptionId: subscription._id } },
+      { $group: { _id: "$status", count: { $sum: 1 } } },
+    ]);
+    const deliveries = { pending: 0, succeeded: 0, failed: 0 };
+    for (const { _id, count } of counts) {
+      deliveries[_id as keyof typeof deliveries] = count;
+    }
+
+    res.status(200).json({ subscription, deliveries });
+  }
+);
+
+// Update webhook => url, event filter, description, active flag
+export const updateWebhook = catchAsync(
+  async (
+    req: ValidatedRequest<typeof updateWebhookSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { subscriptionId } = req.validated.params;
+    const { url, events, description, isActive } = req.validated.body;
+
+    const subscription = await WebhookSubscription.findById(subscriptionId);
+    if (!subscription) return next(new AppError("Webhook not found", 404));
+
+    if (url !== undefined) subscription.url = url;
+    if (events !== undefined) subscription.events = events;
+    if (description !== undefined)
+      subscription.description = description ?? undefined;
+    if (isActive !== undefined) subscription.isActive = isActive;
+
+    await subscription.save();
+
+    res
+      .status(200)
+      .json({ message: "Webhook updated successfully", subscription });
+  }
+);
+
+// Rotate the signing secret => the new one is only shown in this response
+export const rotateWebhookSecret = catchAsync(
+  async (
+    req: ValidatedRequest<typeof rotateWebhookSecretSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { subscriptionId } = req.validated.params;
+    const secret = req.validated.body.secret || generateWebhookSecret();
+
+    const subscription = await WebhookSubscription.findByIdAndUpdate(
+      subscriptionId,
+      { secret },
+      { new: true }
+    );
+    if (!subscription) return next(new AppError("Webhook not found", 404));
+
+    res.status(200).json({
+      message: "Webhook secret rotated successfully",
+      subscriptionId: subscription._id,
+      secret,
+    });
+  }
+);
+
+// Delete webhook and its delivery log
+export const deleteWebhook = catchAsync(
+  async (
+    req: ValidatedRequest<typeof webhookByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { subscriptionId } = req.validated.params;
+
+    const subscription =
+      await WebhookSubscription.findByIdAndDelete(subscriptionId);
+    if (!subscription) return next(new AppError("Webhook not found", 404));
+
+    await WebhookDelivery.deleteMany({ subscriptionId });
+
+    res.status(200).json({ message: "Webhook deleted successfully" });
+  }
+);
+
+// Deliveries of one webhook, newest first
+export const getWebhookDeliveries = catchAsync(
+  async (
+    req: ValidatedRequest<typeof getWebhookDeliveriesSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { subscriptionId } = req.validated.params;
+    const { page, limit, status, event } = req.validated.query;
+
+    const exists = await WebhookSubscription.exists({ _id: subscriptionId });
+    if (!exists) return next(new AppError("Webhook not found", 404));
+
+    const query: any = { subscriptionId };
+    if (status) query.status = status;
+    if (event) query.eventType = event;
+
+    const skip = (page - 1) * limit;
+    const deliveries = await WebhookDelivery.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(limit);
+    const total = await WebhookDelivery.countDocuments(query);
+
+    res.status(200).json({
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      deliveries,
+    });
+  }
+);
+
+// Get delivery by ID with its attempt log
+export const getWebhookDeliveryById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof webhookDeliveryByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { deliveryId } = req.validated.params;
+
+    const delivery = await WebhookDelivery.findById(deliveryId);
+    if (!delivery) return next(new AppError("Delivery not found", 404));
+
+    res.status(200).json({ delivery });
+  }
+);
+
+// Replay a failed delivery now
+export const replayWebhookDeliveryById = catchAsync(
+  async (
+    req: ValidatedRequest<typeof webhookDeliveryByIdSchema>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { deliveryId } = req.validated.params;
+
+    const delivery = await replayWebhookDelivery(deliveryId);
+
+    res.status(200).json({
+      message:
+        delivery?.status === "succeeded"
+          ? "Delivery replayed successfully"
+          : "Replay failed, delivery will be retried",
+      delivery,
+    });
+  }
+);
@@ -6,19 +6,49 @@ import cookieParser from "cookie-parser";
 import configureCors from "./configs/cors.config";
 import { errorHandler } from "./middlewares/errorHandler";
 import limiter from "./middlewares/rateLimit";
+import logger from "./utils/logger";
 
 import variantRouter from "./routes/variant.route";
+import reservationRouter from "./routes/reservation.route";
+import locationRouter from "./routes/location.route";
+import stockAlertRouter from "./routes/stockAlert.route";
+import discountScheduleRouter from "./routes/discountSchedule.route";
+import purchaseOrderRouter from "./routes/purchaseOrder.route";
+import priceListRouter from "./routes/priceList.route";
+import webhookRouter from "./routes/webhook.route";
+import lotRouter from "./routes/lot.route";
+import stocktakeRouter from "./routes/stocktake.route";
+import auditLogRouter from "./routes/auditLog.route";
+import { ensureDefaultLocation } from "./services/location.service";
+import { backfillVariantStatus } from "./services/variantLifecycle.service";
+import { startReservationExpiryJob } from "./jobs/reservationExpiry.job";
+import { startDiscountScheduleJob } from "./jobs/discountSchedule.job";
+import { startBulkDiscountReaperJob } from "./jobs/bulkDiscountReaper.job";
+import { startOutboxDispatcherJob } from "./jobs/outboxDispatcher.job";
+import { startWebhookDeliveryJob } from "./jobs/webhookDelivery.job";
+import { registerEventSink } from "./services/eventSink.service";
+import { webhookSink } from "./services/webhook.service";
 
 const app = express();
 
 // middlewares
-app.use(express.json());
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || "2mb" })); // bulk stock batches
 app.use(cookieParser());
 app.use(configureCors());
 app.use(limiter);
 
 // Routes
 app.use("/api/variants", variantRouter);
+app.use("/api/reservations", reservationRouter);
+app.use("/api/locations", locationRouter);
+app.use("/api/stock-alerts", stockAlertRouter);
+app.use("/api/discount-schedules", discountScheduleRouter);
+app.use("/api/purchase-orders", purchaseOrderRouter);
+app.use("/api/price-lists", priceListRouter);
+app.use("/api/webhooks", webhookRouter);
+app.use("/api/lots", lotRouter);
+app.use("/api/stocktakes", stocktakeRouter);
+app.use("/api/audit-logs", auditLogRouter);
 
 // Global Error Handler
 app.use(errorHandler);
@@ -26,5 +56,22 @@ app.use(errorHandler);
 const PORT = process.env.PORT || 3030;
 app.listen(PORT, () => {
   connectDB();
+  ensureDefaultLocation().catch((error) =>
+    logger.error(`Failed to ensure default location: ${error.message}`)
+  );
+  backfillVariantStatus().catch((error) =>
+    logger.error(`Failed to backfill variant status: ${error.message}`)
+  );
+
+  // outbox events also go out to webhook subscribers
+  registerEventSink(webhookSink);
+
+  // background jobs
+  startReservationExpiryJob();
+  startDiscountScheduleJob();
+  startBulkDiscountReaperJob();
+  startOutboxDispatcherJob();
+  startWebhookDeliveryJob();
+
   console.log(`Server is running on http://localhost:${PORT}`);
 });
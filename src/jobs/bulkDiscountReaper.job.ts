@@ -0,0 +1,24 @@
+import { reapExpiredBulkDiscounts } from "../services/bulkDiscount.service";
+import logger from "../utils/logger";
+
+const REAPER_INTERVAL_MS =
+  Number(process.env.BULK_DISCOUNT_REAPER_INTERVAL_MS) || 60 * 1000;
+
+let running = false;
+
+// Periodically roll back bulk discounts left pending past their timeout
+export const startBulkDiscountReaperJob = () => {
+  return setInterval(async () => {
+    if (running) return; // previous sweep still in progress
+    running = true;
+
+    try {
+      const count = await reapExpiredBulkDiscounts();
+      if (count > 0) logger.info(`Expired ${count} bulk discount operation(s)`);
+    } catch (error: any) {
+      logger.error(`Bulk discount reaper failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, REAPER_INTERVAL_MS);
+};
@@ -0,0 +1,28 @@
+import { runDiscountSchedules } from "../services/discountSchedule.service";
+import logger from "../utils/logger";
+
+const SCHEDULER_INTERVAL_MS =
+  Number(process.env.DISCOUNT_SCHEDULER_INTERVAL_MS) || 60 * 1000;
+
+let running = false;
+
+// Periodically start and end scheduled discounts
+export const startDiscountScheduleJob = () => {
+  return setInterval(async () => {
+    if (running) return; // previous tick still in progress
+    running = true;
+
+    try {
+      const { activated, reverted, skipped } = await runDiscountSchedules();
+      if (activated || reverted || skipped) {
+        logger.info(
+          `Discount schedules: ${activated} activated, ${reverted} reverted, ${skipped} skipped`
+        );
+      }
+    } catch (error: any) {
+      logger.error(`Discount scheduler tick failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, SCHEDULER_INTERVAL_MS);
+};
@@ -0,0 +1,26 @@
+import { dispatchOutboxEvents } from "../services/outbox.service";
+import logger from "../utils/logger";
+
+const DISPATCH_INTERVAL_MS =
+  Number(process.env.OUTBOX_DISPATCH_INTERVAL_MS) || 1000;
+
+let running = false;
+
+// Periodically deliver outbox events to the registered sinks
+export const startOutboxDispatcherJob = () => {
+  return setInterval(async () => {
+    if (running) return; // previous tick still in progress
+    running = true;
+
+    try {
+      const { dispatched, failed } = await dispatchOutboxEvents();
+      if (failed) {
+        logger.warn(`Outbox: ${dispatched} dispatched, ${failed} failed`);
+      }
+    } catch (error: any) {
+      logger.error(`Outbox dispatcher tick failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, DISPATCH_INTERVAL_MS);
+};
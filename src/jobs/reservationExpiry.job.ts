@@ -0,0 +1,24 @@
+import { expireReservations } from "../services/reservation.service";
+import logger from "../utils/logger";
+
+const SWEEP_INTERVAL_MS =
+  Number(process.env.RESERVATION_SWEEP_INTERVAL_MS) || 60 * 1000;
+
+let running = false;
+
+// Periodically release reservations whose TTL has passed
+export const startReservationExpiryJob = () => {
+  return setInterval(async () => {
+    if (running) return; // previous sweep still in progress
+    running = true;
+
+    try {
+      const count = await expireReservations();
+      if (count > 0) logger.info(`Expired ${count} reservation(s)`);
+    } catch (error: any) {
+      logger.error(`Reservation expiry sweep failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, SWEEP_INTERVAL_MS);
+};
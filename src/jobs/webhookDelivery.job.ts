@@ -0,0 +1,26 @@
+import { dispatchWebhookDeliveries } from "../services/webhook.service";
+import logger from "../utils/logger";
+
+const DELIVERY_INTERVAL_MS =
+  Number(process.env.WEBHOOK_DELIVERY_INTERVAL_MS) || 2000;
+
+let running = false;
+
+// Periodically send due webhook deliveries (first attempts and retries)
+export const startWebhookDeliveryJob = () => {
+  return setInterval(async () => {
+    if (running) return; // previous tick still in progress
+    running = true;
+
+    try {
+      const { succeeded, failed } = await dispatchWebhookDeliveries();
+      if (failed) {
+        logger.warn(`Webhooks: ${succeeded} delivered, ${failed} failed`);
+      }
+    } catch (error: any) {
+      logger.error(`Webhook delivery tick failed: ${error.message}`);
+    } finally {
+      running = false;
+    }
+  }, DELIVERY_INTERVAL_MS);
+};
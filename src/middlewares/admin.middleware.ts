@@ -17,3 +17,15 @@ export const isAdmin = async (
 
   next();
 };
+
+// Allow any of the given roles (isAdmin is hasRole("admin"))
+export const hasRole =
+  (...roles: string[]) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!roles.includes(req.user?.role)) {
+      logger.warn(`Unauthorized access by ${req.user?.email}`);
+      return next(new AppError("Unauthorized access", 403));
+    }
+
+    next();
+  };
@@ -0,0 +1,98 @@
+import { NextFunction, Request, Response } from "express";
+import AuditLog from "../models/auditLog.model";
+import { AuditAction } from "../schema/auditLog.schema";
+import {
+  AuditTargets,
+  diffSnapshots,
+  mergeTargets,
+  requestTargets,
+  responseVariantIds,
+  snapshotVariants,
+} from "../services/auditLog.service";
+import { AuthenticatedRequest } from "./admin.middleware";
+import logger from "../utils/logger";
+
+export interface AuditTrailOptions {
+  // record type; its id comes from `:<resource>Id` or the response's `<resource>`
+  resource?: string;
+  // variants / products the request does not name itself
+  targets?: (req: Request) => Promise<Partial<AuditTargets>>;
+}
+
+/**
+ * Audit a mutating route: the targeted variants are snapshotted before the
+ * handler runs and again once the response is sent, and the field diff is
+ * stored with the actor, request IP and action. Only successful requests
+ * (status < 400) are written; a failed write is logged, never surfaced.
+ */
+export const auditTrail =
+  (action: AuditAction, options: AuditTrailOptions = {}) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    let targets: AuditTargets;
+    let before: Awaited<ReturnType<typeof snapshotVariants>>;
+
+    try {
+      targets = requestTargets(req);
+      if (options.targets) {
+        targets = mergeTargets(targets, await options.targets(req));
+      }
+      before = await snapshotVariants(targets);
+    } catch (error) {
+      return next(error);
+    }
+
+    // capture the response body for created ids
+    let responseBody: any;
+    const json = res.json.bind(res);
+    res.json = (body: any) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on("finish", async () => {
+      if (res.statusCode >= 400) return;
+
+      try {
+        const created = responseVariantIds(responseBody);
+        const afterTargets = mergeTargets(targets, { variantIds: created });
+        const after = await snapshotVariants(afterTargets);
+
+        const resourceId = options.resource
+          ? req.params[`${options.resource}Id`] ||
+            responseBody?.[options.resource]?._id?.toString()
+          : undefined;
+
+        await AuditLog.create({
+          action,
+          actor: req.user
+            ? { userId: req.user.userId, role: req.user.role }
+            : undefined,
+          // product-wide routes list every variant they snapshotted
+          variantIds: [
+            ...new Set([
+              ...afterTargets.variantIds,
+              ...before.snapshot.keys(),
+              ...after.snapshot.keys(),
+            ]),
+          ],
+          productIds: [
+            ...new Set([...afterTargets.productIds, ...after.productIds]),
+          ],
+          resource: options.resource
+            ? { type: options.resource, id: resourceId }
+            : undefined,
+          changes: diffSnapshots(before.snapshot, after.snapshot),
+          truncated: before.truncated || after.truncated,
+          method: req.method,
+          path: req.originalUrl.split("?")[0],
+          statusCode: res.statusCode,
+          ip: req.ip,
+          userAgent: req.get("User-Agent"),
+        });
+      } catch (error: any) {
+        logger.error(`Failed to write audit log for ${action}: ${error.message}`);
+      }
+    });
+
+    next();
+  };
@@ -1,6 +1,6 @@
 // middleware/errorHandler.ts
 import { Request, Response, NextFunction } from "express";
-import { AppError } from "../utils/appError";
+import { AppError, ValidationError } from "../utils/appError";
 import logger from "../utils/logger";
 
 export function errorHandler(
@@ -9,11 +9,22 @@ export function errorHandler(
   res: Response,
   next: NextFunction
 ) {
+  // optimisticConcurrency: the document changed between read and save()
+  if (err.name === "VersionError") {
+    err = new AppError(
+      "Variant was modified by someone else, reload and try again",
+      412
+    );
+  }
+
   err.statusCode = err.statusCode || 500;
   err.status = err.status || "error";
 
   const env = process.env.NODE_ENV || "development";
 
+  // field-level details for 400s raised by the validate middleware
+  const errors = err instanceof ValidationError ? err.errors : undefined;
+
   if (env === "production") {
     // Production Mode: Log every error
     logger.error(`${err.statusCode} - ${err.message}`, {
@@ -27,6 +38,7 @@ export function errorHandler(
       res.status(err.statusCode).json({
         status: err.status,
         message: err.message,
+        errors,
       });
     } else {
       // Unknown error (e.g., programming bug)
@@ -47,6 +59,7 @@ export function errorHandler(
     res.status(err.statusCode).json({
       status: err.status,
       message: err.message,
+      errors,
       error: err,
       stack: err.stack,
     });
@@ -0,0 +1,118 @@
+import { NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+import IdempotencyKey from "../models/idempotencyKey.model";
+import { AuthenticatedRequest } from "./admin.middleware";
+import { AppError } from "../utils/appError";
+import logger from "../utils/logger";
+
+const KEY_TTL_MS =
+  (Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+// JSON with sorted object keys so {a,b} and {b,a} hash the same
+const canonicalize = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonicalize(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+const hashRequest = (req: Request) =>
+  crypto
+    .createHash("sha256")
+    .update(`${req.method} ${req.baseUrl}${req.path} ${canonicalize(req.body)}`)
+    .digest("hex");
+
+/**
+ * Idempotency-Key support for POST/PATCH. Mount it per route after auth and
+ * validation, so only accepted requests reach it. Keys are scoped to the
+ * caller and route; the first successful (2xx) response is stored with a
+ * hash of the request, a retry with the same request gets it replayed and a
+ * different request under the same key gets a 409. Anything else releases
+ * the key so the client can retry. Requests without the header are not
+ * affected.
+ */
+export const idempotency = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!["POST", "PATCH"].includes(req.method)) return next();
+
+  const key = req.get("Idempotency-Key");
+  if (!key) return next();
+  if (key.length > 255) {
+    return next(new AppError("Idempotency-Key must be at most 255 characters", 400));
+  }
+
+  const scope = {
+    caller: String(req.user?.userId ?? "anonymous"),
+    method: req.method,
+    path: `${req.baseUrl}${req.path}`,
+    key,
+  };
+  const requestHash = hashRequest(req);
+
+  try {
+    await IdempotencyKey.create({
+      ...scope,
+      requestHash,
+      expiresAt: new Date(Date.now() + KEY_TTL_MS),
+    });
+  } catch (error: any) {
+    if (error.code !== 11000) return next(error);
+
+    const existing = await IdempotencyKey.findOne(scope);
+    if (!existing) {
+      return next(new AppError("Idempotency-Key is being released, retry", 409));
+    }
+    if (existing.requestHash !== requestHash) {
+      return next(
+        new AppError("Idempotency-Key was already used for a different request", 409)
+      );
+    }
+    if (existing.status === "processing") {
+      return next(
+        new AppError("A request with this Idempotency-Key is still in progress", 409)
+      );
+    }
+
+    res.set("Idempotent-Replayed", "true");
+    return res.status(existing.responseStatus || 200).json(existing.responseBody);
+  }
+
+  // capture the response body so it can be replayed
+  let responseBody: any;
+  const json = res.json.bind(res);
+  res.json = (body: any) => {
+    responseBody = body;
+    return json(body);
+  };
+
+  res.on("close", async () => {
+    try {
+      const succeeded =
+        res.writableFinished && res.statusCode >= 200 && res.statusCode < 300;
+      if (!succeeded) {
+        // aborted or rejected requests are not final, let the client retry
+        await IdempotencyKey.deleteOne({ ...scope, status: "processing" });
+      } else {
+        await IdempotencyKey.updateOne(
+          scope,
+          {
+            status: "completed",
+            responseStatus: res.statusCode,
+            responseBody,
+          }
+        );
+      }
+    } catch (error: any) {
+      logger.error(`Failed to store idempotent response for ${key}: ${error.message}`);
+    }
+  });
+
+  next();
+};
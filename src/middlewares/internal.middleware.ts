@@ -0,0 +1,26 @@
+import { NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+import { AppError } from "../utils/appError";
+import logger from "../utils/logger";
+
+// Calls from other services (product-service) carry the shared internal key
+export const isInternalService = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const expected = process.env.INTERNAL_API_KEY;
+  if (!expected) {
+    logger.error("INTERNAL_API_KEY is not set, rejecting internal call");
+    return next(new AppError("Internal access is not configured", 500));
+  }
+
+  const provided = req.get("x-internal-key") || "";
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    return next(new AppError("Unauthorized", 403));
+  }
+
+  next();
+};
@@ -0,0 +1,57 @@
+import { NextFunction, Response } from "express";
+import { z, ZodTypeAny } from "zod";
+import { AuthenticatedRequest } from "./admin.middleware";
+import { FieldError, ValidationError } from "../utils/appError";
+
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+type Infer<T> = T extends ZodTypeAny ? z.infer<T> : {};
+
+// Request after validate(): parsed and typed input lives on req.validated
+export interface ValidatedRequest<S extends RequestSchemas>
+  extends AuthenticatedRequest {
+  validated: {
+    params: Infer<S["params"]>;
+    query: Infer<S["query"]>;
+    body: Infer<S["body"]>;
+  };
+}
+
+/**
+ * Validate params, query and body against zod schemas. All failures are
+ * reported together as one 400; on success the parsed values (with defaults
+ * and coercions applied) are put on req.validated for the controller.
+ */
+export const validate =
+  (schemas: RequestSchemas) =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const errors: FieldError[] = [];
+    const validated: any = { params: {}, query: {}, body: {} };
+
+    for (const location of ["params", "query", "body"] as const) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        validated[location] = result.data;
+      } else {
+        for (const issue of result.error.issues) {
+          errors.push({
+            location,
+            path: issue.path.join("."),
+            message: issue.message,
+          });
+        }
+      }
+    }
+
+    if (errors.length) return next(new ValidationError(errors));
+
+    (req as ValidatedRequest<RequestSchemas>).validated = validated;
+    next();
+  };
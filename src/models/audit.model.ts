@@ -9,9 +9,10 @@ const AuditSchema = new Schema<IAuditDocument>(
     discountPercent: { type: Number },
     status: {
       type: String,
-      enum: ["pending", "committed", "rolledback"],
+      enum: ["pending", "committed", "rolledback", "expired"],
       default: "pending",
     },
+    expiresAt: { type: Date },
     createdBy: { type: Schema.Types.ObjectId, ref: "User" },
     items: [
       {
@@ -24,4 +25,7 @@ const AuditSchema = new Schema<IAuditDocument>(
   { timestamps: true }
 );
 
+// reaper lookups
+AuditSchema.index({ status: 1, expiresAt: 1 });
+
 export default model<IAuditDocument>("Audit", AuditSchema);
@@ -0,0 +1,41 @@
+import { Schema, model } from "mongoose";
+import { AUDIT_ACTIONS, IAuditLogDocument } from "../schema/auditLog.schema";
+
+// Append-only: entries are never updated or removed
+const AuditLogSchema = new Schema<IAuditLogDocument>(
+  {
+    action: { type: String, enum: AUDIT_ACTIONS, required: true },
+    actor: {
+      userId: { type: Schema.Types.ObjectId, ref: "User" },
+      role: { type: String },
+    },
+    variantIds: [{ type: Schema.Types.ObjectId, ref: "Variant" }],
+    productIds: [{ type: Schema.Types.ObjectId }],
+    resource: {
+      type: { type: String },
+      id: { type: String },
+    },
+    changes: [
+      {
+        _id: false,
+        variantId: { type: Schema.Types.ObjectId, ref: "Variant" },
+        fields: { type: Schema.Types.Mixed },
+      },
+    ],
+    truncated: { type: Boolean, default: false },
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+    statusCode: { type: Number, required: true },
+    ip: { type: String },
+    userAgent: { type: String },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ "actor.userId": 1, createdAt: -1 });
+AuditLogSchema.index({ variantIds: 1, createdAt: -1 });
+AuditLogSchema.index({ productIds: 1, createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+
+export default model<IAuditLogDocument>("AuditLog", AuditLogSchema);
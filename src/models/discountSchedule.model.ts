@@ -0,0 +1,47 @@
+import { Schema, model } from "mongoose";
+import { IDiscountScheduleDocument } from "../schema/discountSchedule.schema";
+
+const DiscountScheduleSchema = new Schema<IDiscountScheduleDocument>(
+  {
+    scope: { type: String, enum: ["variant", "product"], required: true },
+    targetId: { type: Schema.Types.ObjectId, required: true, index: true },
+    discountPercent: { type: Number, required: true, min: 0, max: 100 },
+    startsAt: { type: Date, required: true },
+    endsAt: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ["scheduled", "active", "completed", "cancelled"],
+      default: "scheduled",
+    },
+    items: [
+      {
+        variantId: { type: Schema.Types.ObjectId, required: true },
+        oldDiscountPercent: { type: Number, required: true },
+        oldDiscountPrice: { type: Number, required: true },
+      },
+    ],
+    history: [
+      {
+        action: {
+          type: String,
+          enum: ["activated", "reverted", "skipped", "cancelled"],
+          required: true,
+        },
+        at: { type: Date, required: true },
+        variantCount: { type: Number, default: 0 },
+        by: { type: Schema.Types.ObjectId, ref: "User" },
+      },
+    ],
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+// scheduler lookups
+DiscountScheduleSchema.index({ status: 1, startsAt: 1 });
+DiscountScheduleSchema.index({ status: 1, endsAt: 1 });
+
+export default model<IDiscountScheduleDocument>(
+  "DiscountSchedule",
+  DiscountScheduleSchema
+);
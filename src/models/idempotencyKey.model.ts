@@ -0,0 +1,34 @@
+import { Schema, model } from "mongoose";
+import { IIdempotencyKeyDocument } from "../schema/idempotencyKey.schema";
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKeyDocument>(
+  {
+    caller: { type: String, required: true },
+    key: { type: String, required: true },
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+    requestHash: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["processing", "completed"],
+      default: "processing",
+    },
+    responseStatus: { type: Number },
+    responseBody: { type: Schema.Types.Mixed },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+// A key only collides with the same caller's requests to the same route
+IdempotencyKeySchema.index(
+  { caller: 1, method: 1, path: 1, key: 1 },
+  { unique: true }
+);
+// Mongo removes keys once they expire
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IIdempotencyKeyDocument>(
+  "IdempotencyKey",
+  IdempotencyKeySchema
+);
@@ -0,0 +1,27 @@
+import { Schema, model } from "mongoose";
+import { IInventoryLevelDocument } from "../schema/inventoryLevel.schema";
+
+const InventoryLevelSchema = new Schema<IInventoryLevelDocument>(
+  {
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Variant",
+      required: true,
+    },
+    locationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Location",
+      required: true,
+      index: true,
+    },
+    stock: { type: Number, default: 0, min: 0 },
+  },
+  { timestamps: true }
+);
+
+InventoryLevelSchema.index({ variantId: 1, locationId: 1 }, { unique: true });
+
+export default model<IInventoryLevelDocument>(
+  "InventoryLevel",
+  InventoryLevelSchema
+);
@@ -0,0 +1,22 @@
+import { Schema, model } from "mongoose";
+import { ILocationDocument } from "../schema/location.schema";
+
+const LocationSchema = new Schema<ILocationDocument>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+    },
+    name: { type: String, required: true },
+    type: { type: String, enum: ["warehouse", "store"], required: true },
+    address: { type: String },
+    isActive: { type: Boolean, default: true },
+    isDefault: { type: Boolean, default: false },
+  },
+  { timestamps: true }
+);
+
+export default model<ILocationDocument>("Location", LocationSchema);
@@ -0,0 +1,30 @@
+import { Schema, model } from "mongoose";
+import { ILotDocument, LOT_STATUSES } from "../schema/lot.schema";
+
+const LotSchema = new Schema<ILotDocument>(
+  {
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Variant",
+      required: true,
+    },
+    batchCode: { type: String, required: true, trim: true },
+    manufacturedAt: { type: Date },
+    expiresAt: { type: Date },
+    quantity: { type: Number, required: true, min: 0 },
+    receivedQuantity: { type: Number, default: 0, min: 0 },
+    status: { type: String, enum: LOT_STATUSES, default: "available" },
+    quarantinedAt: { type: Date },
+    quarantineReason: { type: String },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+LotSchema.index({ variantId: 1, batchCode: 1 }, { unique: true });
+// FEFO order within a variant
+LotSchema.index({ variantId: 1, status: 1, expiresAt: 1 });
+// expiring-soon report
+LotSchema.index({ expiresAt: 1, status: 1 });
+
+export default model<ILotDocument>("Lot", LotSchema);
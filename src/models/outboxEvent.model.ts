@@ -0,0 +1,39 @@
+import { Schema, model } from "mongoose";
+import {
+  DOMAIN_EVENT_TYPES,
+  IOutboxEventDocument,
+} from "../schema/outboxEvent.schema";
+
+const RETENTION_SECONDS =
+  (Number(process.env.OUTBOX_RETENTION_DAYS) || 7) * 24 * 60 * 60;
+
+const OutboxEventSchema = new Schema<IOutboxEventDocument>(
+  {
+    eventId: { type: String, required: true, unique: true },
+    type: { type: String, enum: DOMAIN_EVENT_TYPES, required: true },
+    aggregateId: { type: Schema.Types.ObjectId, required: true, index: true },
+    occurredAt: { type: Date, required: true },
+    data: { type: Schema.Types.Mixed, default: {} },
+    status: {
+      type: String,
+      enum: ["pending", "dispatched", "failed"],
+      default: "pending",
+    },
+    attempts: { type: Number, default: 0 },
+    availableAt: { type: Date, required: true },
+    deliveredTo: [{ type: String }],
+    lastError: { type: String },
+    dispatchedAt: { type: Date },
+  },
+  { timestamps: true, minimize: false }
+);
+
+// dispatcher picks the oldest due events
+OutboxEventSchema.index({ status: 1, availableAt: 1, occurredAt: 1 });
+// dispatched events are cleaned up after the retention period
+OutboxEventSchema.index(
+  { dispatchedAt: 1 },
+  { expireAfterSeconds: RETENTION_SECONDS }
+);
+
+export default model<IOutboxEventDocument>("OutboxEvent", OutboxEventSchema);
@@ -0,0 +1,42 @@
+import { Schema, model } from "mongoose";
+import {
+  IPriceHistoryDocument,
+  PRICE_CHANGE_SOURCES,
+} from "../schema/priceHistory.schema";
+
+const priceState = {
+  price: { type: Number, required: true },
+  discountPercent: { type: Number, default: 0 },
+  discountPrice: { type: Number, default: 0 },
+};
+
+// Append-only: entries are never updated or removed
+const PriceHistorySchema = new Schema<IPriceHistoryDocument>(
+  {
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Variant",
+      required: true,
+    },
+    version: { type: Number, required: true, min: 1 },
+    currency: { type: String, required: true },
+    ...priceState,
+    previous: { type: new Schema(priceState, { _id: false }) },
+    changedFields: [{ type: String }],
+    source: { type: String, enum: PRICE_CHANGE_SOURCES, required: true },
+    referenceId: { type: String },
+    actor: {
+      userId: { type: Schema.Types.ObjectId, ref: "User" },
+      role: { type: String },
+    },
+    effectiveAt: { type: Date, required: true, default: Date.now },
+  },
+  { timestamps: true }
+);
+
+// one entry per version, also the timeline order
+PriceHistorySchema.index({ variantId: 1, version: 1 }, { unique: true });
+// point-in-time lookups
+PriceHistorySchema.index({ variantId: 1, effectiveAt: -1 });
+
+export default model<IPriceHistoryDocument>("PriceHistory", PriceHistorySchema);
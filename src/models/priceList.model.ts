@@ -0,0 +1,30 @@
+import { Schema, model } from "mongoose";
+import { IPriceListDocument } from "../schema/priceList.schema";
+
+const PriceListSchema = new Schema<IPriceListDocument>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+    },
+    name: { type: String, required: true },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      minlength: 3,
+      maxlength: 3,
+    },
+    region: { type: String, uppercase: true, trim: true },
+    isActive: { type: Boolean, default: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+PriceListSchema.index({ currency: 1, region: 1 });
+
+export default model<IPriceListDocument>("PriceList", PriceListSchema);
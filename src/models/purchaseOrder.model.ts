@@ -0,0 +1,89 @@
+import { Schema, model } from "mongoose";
+import {
+  IPurchaseOrderDocument,
+  PURCHASE_ORDER_STATUSES,
+} from "../schema/purchaseOrder.schema";
+
+const PurchaseOrderSchema = new Schema<IPurchaseOrderDocument>(
+  {
+    poNumber: { type: String, required: true, unique: true },
+    supplier: {
+      name: { type: String, required: true, trim: true },
+      email: { type: String, trim: true },
+      phone: { type: String, trim: true },
+    },
+    lines: [
+      {
+        variantId: {
+          type: Schema.Types.ObjectId,
+          ref: "Variant",
+          required: true,
+        },
+        orderedQuantity: { type: Number, required: true, min: 1 },
+        unitCost: { type: Number, required: true, min: 0 },
+        receivedQuantity: { type: Number, default: 0, min: 0 },
+        flag: { type: String, enum: ["over", "under"] },
+      },
+    ],
+    status: {
+      type: String,
+      enum: PURCHASE_ORDER_STATUSES,
+      default: "draft",
+    },
+    expectedAt: { type: Date },
+    notes: { type: String },
+    receipts: [
+      {
+        receivedAt: { type: Date, required: true },
+        receivedBy: { type: Schema.Types.ObjectId, ref: "User" },
+        locationId: { type: Schema.Types.ObjectId, ref: "Location" },
+        note: { type: String },
+        items: [
+          {
+            _id: false,
+            variantId: { type: Schema.Types.ObjectId, required: true },
+            quantity: { type: Number, required: true },
+          },
+        ],
+      },
+    ],
+    sentAt: { type: Date },
+    closedAt: { type: Date },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  {
+    timestamps: true,
+    optimisticConcurrency: true, // concurrent receipts fail instead of merging
+  }
+);
+
+// Generate PO number if missing
+PurchaseOrderSchema.pre("validate", async function (next) {
+  if (!this.poNumber) {
+    let poNumber = "";
+    let isUnique = false;
+
+    while (!isUnique) {
+      const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+      const rand = Math.floor(1000 + Math.random() * 9000);
+      poNumber = `PO-${datePart}-${rand}`;
+
+      const exists = await model<IPurchaseOrderDocument>(
+        "PurchaseOrder"
+      ).exists({ poNumber });
+      if (!exists) isUnique = true;
+    }
+
+    this.poNumber = poNumber;
+  }
+  next();
+});
+
+PurchaseOrderSchema.index({ status: 1, createdAt: -1 });
+// incoming quantity lookups
+PurchaseOrderSchema.index({ "lines.variantId": 1, status: 1 });
+
+export default model<IPurchaseOrderDocument>(
+  "PurchaseOrder",
+  PurchaseOrderSchema
+);
@@ -0,0 +1,33 @@
+import { Schema, model } from "mongoose";
+import { IReservationDocument } from "../schema/reservation.schema";
+
+const ReservationSchema = new Schema<IReservationDocument>(
+  {
+    referenceId: { type: String, index: true },
+    items: [
+      {
+        variantId: {
+          type: Schema.Types.ObjectId,
+          ref: "Variant",
+          required: true,
+        },
+        quantity: { type: Number, required: true, min: 1 },
+      },
+    ],
+    status: {
+      type: String,
+      enum: ["active", "confirmed", "released", "expired"],
+      default: "active",
+    },
+    expiresAt: { type: Date, required: true },
+    confirmedAt: { type: Date },
+    releasedAt: { type: Date },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+// used by the expiry sweep
+ReservationSchema.index({ status: 1, expiresAt: 1 });
+
+export default model<IReservationDocument>("Reservation", ReservationSchema);
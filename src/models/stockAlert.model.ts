@@ -0,0 +1,32 @@
+import { Schema, model } from "mongoose";
+import { IStockAlertDocument } from "../schema/stockAlert.schema";
+
+const StockAlertSchema = new Schema<IStockAlertDocument>(
+  {
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Variant",
+      required: true,
+      index: true,
+    },
+    type: { type: String, enum: ["low_stock"], default: "low_stock" },
+    stock: { type: Number, required: true },
+    reorderPoint: { type: Number, required: true },
+    reorderQuantity: { type: Number },
+    status: {
+      type: String,
+      enum: ["open", "acknowledged", "resolved"],
+      default: "open",
+    },
+    acknowledgedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    acknowledgedAt: { type: Date },
+    note: { type: String },
+    resolvedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// alert queue => oldest first per status
+StockAlertSchema.index({ status: 1, createdAt: 1 });
+
+export default model<IStockAlertDocument>("StockAlert", StockAlertSchema);
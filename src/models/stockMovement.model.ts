@@ -0,0 +1,48 @@
+import { Schema, model } from "mongoose";
+import {
+  IStockMovementDocument,
+  STOCK_MOVEMENT_REASONS,
+} from "../schema/stockMovement.schema";
+
+// Append-only: entries are never updated or removed
+const StockMovementSchema = new Schema<IStockMovementDocument>(
+  {
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Variant",
+      required: true,
+    },
+    delta: { type: Number, required: true },
+    balance: { type: Number, required: true },
+    locationId: { type: Schema.Types.ObjectId, ref: "Location" },
+    locationBalance: { type: Number },
+    reason: { type: String, enum: STOCK_MOVEMENT_REASONS, required: true },
+    actor: {
+      userId: { type: Schema.Types.ObjectId, ref: "User" },
+      role: { type: String },
+    },
+    referenceId: { type: String, index: true },
+    lots: {
+      type: [
+        {
+          _id: false,
+          lotId: { type: Schema.Types.ObjectId, ref: "Lot", required: true },
+          batchCode: { type: String, required: true },
+          quantity: { type: Number, required: true },
+        },
+      ],
+      default: undefined,
+    },
+  },
+  { timestamps: true }
+);
+
+// history per variant, newest first
+StockMovementSchema.index({ variantId: 1, createdAt: -1 });
+// recall tracing: every movement of a lot
+StockMovementSchema.index({ "lots.lotId": 1 }, { sparse: true });
+
+export default model<IStockMovementDocument>(
+  "StockMovement",
+  StockMovementSchema
+);
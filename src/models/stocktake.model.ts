@@ -0,0 +1,76 @@
+import { Schema, model } from "mongoose";
+import {
+  IStocktakeDocument,
+  STOCKTAKE_STATUSES,
+} from "../schema/stocktake.schema";
+
+const StocktakeSchema = new Schema<IStocktakeDocument>(
+  {
+    code: { type: String, required: true, unique: true },
+    locationId: { type: Schema.Types.ObjectId, ref: "Location" },
+    status: { type: String, enum: STOCKTAKE_STATUSES, default: "open" },
+    note: { type: String },
+    lines: [
+      {
+        variantId: {
+          type: Schema.Types.ObjectId,
+          ref: "Variant",
+          required: true,
+        },
+        sku: { type: String, required: true },
+        expectedQuantity: { type: Number, required: true },
+        unitPrice: { type: Number, required: true, min: 0 },
+        countedQuantity: { type: Number, min: 0 },
+        counts: [
+          {
+            _id: false,
+            quantity: { type: Number, required: true, min: 0 },
+            mode: { type: String, enum: ["set", "add"], required: true },
+            pass: { type: Number, required: true },
+            countedBy: { type: Schema.Types.ObjectId, ref: "User" },
+            countedAt: { type: Date, required: true },
+          },
+        ],
+        movedBeforeCount: { type: Number },
+        adjustment: { type: Number },
+      },
+    ],
+    passes: { type: Number, default: 0 },
+    openedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    closedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    closedAt: { type: Date },
+    cancelledAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    optimisticConcurrency: true, // concurrent count passes fail instead of merging
+  }
+);
+
+// Generate stocktake code if missing
+StocktakeSchema.pre("validate", async function (next) {
+  if (!this.code) {
+    let code = "";
+    let isUnique = false;
+
+    while (!isUnique) {
+      const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+      const rand = Math.floor(1000 + Math.random() * 9000);
+      code = `ST-${datePart}-${rand}`;
+
+      const exists = await model<IStocktakeDocument>("Stocktake").exists({
+        code,
+      });
+      if (!exists) isUnique = true;
+    }
+
+    this.code = code;
+  }
+  next();
+});
+
+StocktakeSchema.index({ status: 1, createdAt: -1 });
+// open counts per variant (one at a time)
+StocktakeSchema.index({ "lines.variantId": 1, status: 1 });
+
+export default model<IStocktakeDocument>("Stocktake", StocktakeSchema);
@@ -1,5 +1,9 @@
 import { model, Schema } from "mongoose";
-import { IVariantDocument } from "../schema/variant.schema";
+import {
+  IVariantDocument,
+  VARIANT_KINDS,
+  VARIANT_STATUSES,
+} from "../schema/variant.schema";
 
 const VariantSchema = new Schema<IVariantDocument>(
   {
@@ -15,12 +19,76 @@ const VariantSchema = new Schema<IVariantDocument>(
     discountPrice: { type: Number , default: 0 , min: 0 }, // For offers
     discountPercent : { type: Number , default: 0 , min: 0 },
     stock: { type: Number, default: 0, min: 0 },
+    reserved: { type: Number, default: 0, min: 0 }, // held for checkout
+    quarantined: { type: Number, default: 0, min: 0 }, // quarantined lots
+    reorderPoint: { type: Number, min: 0 }, // unset = no low-stock tracking
+    reorderQuantity: { type: Number, min: 0 },
+    priceTiers: [
+      {
+        _id: false,
+        minQuantity: { type: Number, required: true, min: 1 },
+        maxQuantity: { type: Number, min: 1 },
+        unitPrice: { type: Number, required: true, min: 0 },
+      },
+    ],
+    kind: { type: String, enum: VARIANT_KINDS, default: "standard" },
+    components: {
+      type: [
+        {
+          _id: false,
+          variantId: { type: Schema.Types.ObjectId, ref: "Variant", required: true },
+          quantity: { type: Number, required: true, min: 1 },
+        },
+      ],
+      default: undefined,
+    },
+    bundlePricing: {
+      type: {
+        _id: false,
+        mode: { type: String, enum: ["fixed", "components"], required: true },
+        discountPercent: { type: Number, default: 0, min: 0, max: 100 },
+      },
+      default: undefined,
+    },
     isActive: { type: Boolean, default: true },
+    status: { type: String, enum: VARIANT_STATUSES, default: "active" },
+    archivedAt: { type: Date },
     createdBy: { type: Schema.Types.ObjectId, ref: "User" },
   },
-  { timestamps: true }
+  {
+    timestamps: true,
+    optimisticConcurrency: true, // save() fails if the document changed meanwhile
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+    id: false,
+  }
 );
 
+// On-hand vs available (on-hand minus active reservations and quarantine)
+VariantSchema.virtual("onHand").get(function () {
+  return this.stock;
+});
+VariantSchema.virtual("available").get(function () {
+  return Math.max(
+    this.stock - (this.reserved || 0) - (this.quarantined || 0),
+    0
+  );
+});
+
+// Keep isActive and status in step: status wins when both are set
+VariantSchema.pre("validate", function (next) {
+  const statusGiven = this.isNew
+    ? !this.$isDefault("status")
+    : this.isModified("status");
+
+  if (statusGiven) {
+    this.isActive = this.status === "active";
+  } else if (this.isModified("isActive") || this.isNew) {
+    this.status = this.isActive ? "active" : "inactive";
+  }
+  next();
+});
+
 // Generate SKU if missing
 VariantSchema.pre("validate", async function (next) {
   if (!this.sku) {
@@ -60,5 +128,11 @@ VariantSchema.pre("validate", async function (next) {
 VariantSchema.index({ productId: 1, size: 1 }, { unique: true });
 VariantSchema.index({ price: 1 });
 VariantSchema.index({ stock: 1 });
+// listing sort (createdAt, _id) for cursor pagination
+VariantSchema.index({ createdAt: -1, _id: -1 });
+// listings hide archived variants
+VariantSchema.index({ status: 1 });
+// bundles containing a variant (stock / price refresh)
+VariantSchema.index({ "components.variantId": 1 }, { sparse: true });
 
 export default model<IVariantDocument>("Variant", VariantSchema);
@@ -0,0 +1,26 @@
+import { Schema, model } from "mongoose";
+import { IVariantPriceDocument } from "../schema/priceList.schema";
+
+const VariantPriceSchema = new Schema<IVariantPriceDocument>(
+  {
+    priceListId: {
+      type: Schema.Types.ObjectId,
+      ref: "PriceList",
+      required: true,
+    },
+    variantId: {
+      type: Schema.Types.ObjectId,
+      ref: "Variant",
+      required: true,
+      index: true,
+    },
+    price: { type: Number, required: true, min: 0 },
+    discountPercent: { type: Number, default: 0, min: 0, max: 100 },
+    discountPrice: { type: Number, default: 0, min: 0 },
+  },
+  { timestamps: true }
+);
+
+VariantPriceSchema.index({ priceListId: 1, variantId: 1 }, { unique: true });
+
+export default model<IVariantPriceDocument>("VariantPrice", VariantPriceSchema);
@@ -0,0 +1,53 @@
+import { Schema, model } from "mongoose";
+import {
+  IWebhookDeliveryDocument,
+  WEBHOOK_EVENT_TYPES,
+} from "../schema/webhook.schema";
+
+const WebhookAttemptSchema = new Schema(
+  {
+    attemptedAt: { type: Date, required: true },
+    statusCode: { type: Number },
+    error: { type: String },
+    durationMs: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const WebhookDeliverySchema = new Schema<IWebhookDeliveryDocument>(
+  {
+    subscriptionId: {
+      type: Schema.Types.ObjectId,
+      ref: "WebhookSubscription",
+      required: true,
+    },
+    eventId: { type: String, required: true },
+    eventType: { type: String, enum: WEBHOOK_EVENT_TYPES, required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "succeeded", "failed"],
+      default: "pending",
+    },
+    attemptCount: { type: Number, default: 0 },
+    availableAt: { type: Date, required: true },
+    attempts: [WebhookAttemptSchema],
+    lastError: { type: String },
+    deliveredAt: { type: Date },
+    replayedAt: { type: Date },
+  },
+  { timestamps: true, minimize: false }
+);
+
+// an event redelivered by the outbox must not be queued twice
+WebhookDeliverySchema.index(
+  { subscriptionId: 1, eventId: 1, eventType: 1 },
+  { unique: true }
+);
+WebhookDeliverySchema.index({ status: 1, availableAt: 1 });
+WebhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
+
+export default model<IWebhookDeliveryDocument>(
+  "WebhookDelivery",
+  WebhookDeliverySchema
+);
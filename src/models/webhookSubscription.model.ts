@@ -0,0 +1,24 @@
+import { Schema, model } from "mongoose";
+import {
+  IWebhookSubscriptionDocument,
+  WEBHOOK_EVENT_TYPES,
+} from "../schema/webhook.schema";
+
+const WebhookSubscriptionSchema = new Schema<IWebhookSubscriptionDocument>(
+  {
+    url: { type: String, required: true, trim: true },
+    events: [{ type: String, enum: WEBHOOK_EVENT_TYPES, required: true }],
+    secret: { type: String, required: true, select: false },
+    description: { type: String },
+    isActive: { type: Boolean, default: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+WebhookSubscriptionSchema.index({ isActive: 1, events: 1 });
+
+export default model<IWebhookSubscriptionDocument>(
+  "WebhookSubscription",
+  WebhookSubscriptionSchema
+);
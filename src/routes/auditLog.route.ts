@@ -0,0 +1,31 @@
+import express from "express";
+import {
+  getAuditLogById,
+  getAuditLogs,
+} from "../controllers/auditLog.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { isAdmin } from "../middlewares/admin.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import {
+  getAuditLogByIdSchema,
+  getAuditLogsSchema,
+} from "../validations/auditLog.validation";
+
+const auditLogRouter = express.Router();
+
+auditLogRouter.get(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(getAuditLogsSchema),
+  getAuditLogs
+);
+auditLogRouter.get(
+  "/:auditLogId",
+  authMiddleware,
+  isAdmin,
+  validate(getAuditLogByIdSchema),
+  getAuditLogById
+);
+
+export default auditLogRouter;
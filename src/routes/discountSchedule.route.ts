@@ -0,0 +1,29 @@
+import express from "express";
+import {
+  cancelDiscountSchedule,
+  createDiscountSchedule,
+  getDiscountSchedules,
+} from "../controllers/discountSchedule.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
+import { isAdmin } from "../middlewares/admin.middleware";
+
+const discountScheduleRouter = express.Router();
+
+discountScheduleRouter.post(
+  "/",
+  authMiddleware,
+  isAdmin,
+  auditTrail("discount_schedule.create", { resource: "schedule" }),
+  createDiscountSchedule
+);
+discountScheduleRouter.get("/", authMiddleware, isAdmin, getDiscountSchedules);
+discountScheduleRouter.patch(
+  "/:scheduleId/cancel",
+  authMiddleware,
+  isAdmin,
+  auditTrail("discount_schedule.cancel", { resource: "schedule" }),
+  cancelDiscountSchedule
+);
+
+export default discountScheduleRouter;
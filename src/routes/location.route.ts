@@ -0,0 +1,46 @@
+import express from "express";
+import {
+  createLocation,
+  getLocationStock,
+  getLocations,
+  transferLocationStock,
+  updateLocation,
+} from "../controllers/location.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
+import { isAdmin } from "../middlewares/admin.middleware";
+
+const locationRouter = express.Router();
+
+locationRouter.post(
+  "/",
+  authMiddleware,
+  isAdmin,
+  auditTrail("location.create", { resource: "location" }),
+  createLocation
+);
+locationRouter.get("/", authMiddleware, isAdmin, getLocations);
+locationRouter.patch(
+  "/:locationId",
+  authMiddleware,
+  isAdmin,
+  auditTrail("location.update", { resource: "location" }),
+  updateLocation
+);
+locationRouter.get(
+  "/:locationId/stock",
+  authMiddleware,
+  isAdmin,
+  getLocationStock
+);
+
+// move stock between warehouses / stores
+locationRouter.post(
+  "/transfer",
+  authMiddleware,
+  isAdmin,
+  auditTrail("stock.transfer"),
+  transferLocationStock
+);
+
+export default locationRouter;
@@ -0,0 +1,72 @@
+import express from "express";
+import {
+  createLot,
+  getExpiringLots,
+  getLotById,
+  getLots,
+  quarantineLotById,
+  releaseLotById,
+} from "../controllers/lot.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
+import { isAdmin } from "../middlewares/admin.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import { lotTargets } from "../services/auditLog.service";
+import {
+  createLotSchema,
+  getExpiringLotsSchema,
+  getLotByIdSchema,
+  getLotsSchema,
+  quarantineLotSchema,
+  releaseLotSchema,
+} from "../validations/lot.validation";
+
+const lotRouter = express.Router();
+
+lotRouter.get(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(getLotsSchema),
+  getLots
+);
+lotRouter.post(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(createLotSchema),
+  auditTrail("lot.create", { resource: "lot" }),
+  createLot
+);
+lotRouter.get(
+  "/expiring",
+  authMiddleware,
+  isAdmin,
+  validate(getExpiringLotsSchema),
+  getExpiringLots
+);
+lotRouter.get(
+  "/:lotId",
+  authMiddleware,
+  isAdmin,
+  validate(getLotByIdSchema),
+  getLotById
+);
+lotRouter.patch(
+  "/:lotId/quarantine",
+  authMiddleware,
+  isAdmin,
+  validate(quarantineLotSchema),
+  auditTrail("lot.quarantine", { resource: "lot", targets: lotTargets }),
+  quarantineLotById
+);
+lotRouter.patch(
+  "/:lotId/release",
+  authMiddleware,
+  isAdmin,
+  validate(releaseLotSchema),
+  auditTrail("lot.release", { resource: "lot", targets: lotTargets }),
+  releaseLotById
+);
+
+export default lotRouter;
@@ -0,0 +1,76 @@
+import express from "express";
+import {
+  createPriceList,
+  getPriceListById,
+  getPriceLists,
+  removePriceListPrice,
+  setPriceListPrices,
+  updatePriceList,
+  updatePriceListDiscount,
+} from "../controllers/priceList.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
+import { isAdmin } from "../middlewares/admin.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import {
+  createPriceListSchema,
+  getPriceListByIdSchema,
+  getPriceListsSchema,
+  removePriceListPriceSchema,
+  setPriceListPricesSchema,
+  updatePriceListDiscountSchema,
+  updatePriceListSchema,
+} from "../validations/priceList.validation";
+
+const priceListRouter = express.Router();
+
+priceListRouter.post(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(createPriceListSchema),
+  auditTrail("price_list.create", { resource: "priceList" }),
+  createPriceList
+);
+priceListRouter.get("/", validate(getPriceListsSchema), getPriceLists);
+priceListRouter.get(
+  "/:priceListId",
+  authMiddleware,
+  isAdmin,
+  validate(getPriceListByIdSchema),
+  getPriceListById
+);
+priceListRouter.patch(
+  "/:priceListId",
+  authMiddleware,
+  isAdmin,
+  validate(updatePriceListSchema),
+  auditTrail("price_list.update", { resource: "priceList" }),
+  updatePriceList
+);
+priceListRouter.put(
+  "/:priceListId/prices",
+  authMiddleware,
+  isAdmin,
+  validate(setPriceListPricesSchema),
+  auditTrail("price_list.set_prices", { resource: "priceList" }),
+  setPriceListPrices
+);
+priceListRouter.delete(
+  "/:priceListId/prices/:variantId",
+  authMiddleware,
+  isAdmin,
+  validate(removePriceListPriceSchema),
+  auditTrail("price_list.remove_price", { resource: "priceList" }),
+  removePriceListPrice
+);
+priceListRouter.patch(
+  "/:priceListId/discount",
+  authMiddleware,
+  isAdmin,
+  validate(updatePriceListDiscountSchema),
+  auditTrail("price_list.discount_update", { resource: "priceList" }),
+  updatePriceListDiscount
+);
+
+export default priceListRouter;
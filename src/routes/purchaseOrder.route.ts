@@ -0,0 +1,87 @@
+import express from "express";
+import {
+  closePurchaseOrderById,
+  createPurchaseOrder,
+  getPurchaseOrderById,
+  getPurchaseOrders,
+  receivePurchaseOrderItems,
+  sendPurchaseOrder,
+  updatePurchaseOrder,
+} from "../controllers/purchaseOrder.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
+import { isAdmin } from "../middlewares/admin.middleware";
+import { idempotency } from "../middlewares/idempotency.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import {
+  createPurchaseOrderSchema,
+  getPurchaseOrdersSchema,
+  purchaseOrderByIdSchema,
+  receivePurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+} from "../validations/purchaseOrder.validation";
+
+const purchaseOrderRouter = express.Router();
+
+purchaseOrderRouter.post(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(createPurchaseOrderSchema),
+  idempotency,
+  auditTrail("purchase_order.create", { resource: "purchaseOrder" }),
+  createPurchaseOrder
+);
+purchaseOrderRouter.get(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(getPurchaseOrdersSchema),
+  getPurchaseOrders
+);
+purchaseOrderRouter.get(
+  "/:purchaseOrderId",
+  authMiddleware,
+  isAdmin,
+  validate(purchaseOrderByIdSchema),
+  getPurchaseOrderById
+);
+purchaseOrderRouter.patch(
+  "/:purchaseOrderId",
+  authMiddleware,
+  isAdmin,
+  validate(updatePurchaseOrderSchema),
+  idempotency,
+  auditTrail("purchase_order.update", { resource: "purchaseOrder" }),
+  updatePurchaseOrder
+);
+purchaseOrderRouter.patch(
+  "/:purchaseOrderId/send",
+  authMiddleware,
+  isAdmin,
+  validate(purchaseOrderByIdSchema),
+  idempotency,
+  auditTrail("purchase_order.send", { resource: "purchaseOrder" }),
+  sendPurchaseOrder
+);
+// retried receipts must not book the same goods twice
+purchaseOrderRouter.post(
+  "/:purchaseOrderId/receive",
+  authMiddleware,
+  isAdmin,
+  validate(receivePurchaseOrderSchema),
+  idempotency,
+  auditTrail("purchase_order.receive", { resource: "purchaseOrder" }),
+  receivePurchaseOrderItems
+);
+purchaseOrderRouter.patch(
+  "/:purchaseOrderId/close",
+  authMiddleware,
+  isAdmin,
+  validate(purchaseOrderByIdSchema),
+  idempotency,
+  auditTrail("purchase_order.close", { resource: "purchaseOrder" }),
+  closePurchaseOrderById
+);
+
+export default purchaseOrderRouter;
@@ -0,0 +1,51 @@
+import express from "express";
+import {
+  confirmReservation,
+  createReservation,
+  getReservationById,
+  releaseReservationById,
+} from "../controllers/reservation.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
+import { isInternalService } from "../middlewares/internal.middleware";
+import { reservationTargets } from "../services/auditLog.service";
+
+const reservationRouter = express.Router();
+
+// called by order-service during checkout (x-internal-key); customers never
+// hold, confirm or release stock directly
+reservationRouter.post(
+  "/",
+  authMiddleware,
+  isInternalService,
+  auditTrail("reservation.create", { resource: "reservation" }),
+  createReservation
+);
+reservationRouter.get(
+  "/:reservationId",
+  authMiddleware,
+  isInternalService,
+  getReservationById
+);
+reservationRouter.post(
+  "/:reservationId/confirm",
+  authMiddleware,
+  isInternalService,
+  auditTrail("reservation.confirm", {
+    resource: "reservation",
+    targets: reservationTargets,
+  }),
+  confirmReservation
+);
+reservationRouter.post(
+  "/:reservationId/release",
+  authMiddleware,
+  isInternalService,
+  auditTrail("reservation.release", {
+    resource: "reservation",
+    targets: reservationTargets,
+  }),
+  releaseReservationById
+);
+
+export default reservationRouter;
@@ -0,0 +1,21 @@
+import express from "express";
+import {
+  acknowledgeStockAlert,
+  getStockAlerts,
+} from "../controllers/stockAlert.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
+import { isAdmin } from "../middlewares/admin.middleware";
+
+const stockAlertRouter = express.Router();
+
+stockAlertRouter.get("/", authMiddleware, isAdmin, getStockAlerts);
+stockAlertRouter.patch(
+  "/:alertId/acknowledge",
+  authMiddleware,
+  isAdmin,
+  auditTrail("stock_alert.acknowledge", { resource: "alert" }),
+  acknowledgeStockAlert
+);
+
+export default stockAlertRouter;
@@ -0,0 +1,90 @@
+import express from "express";
+import {
+  cancelStocktake,
+  closeStocktakeById,
+  getStocktakeById,
+  getStocktakes,
+  getVarianceReport,
+  openStocktake,
+  submitCounts,
+} from "../controllers/stocktake.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
+import { hasRole, isAdmin } from "../middlewares/admin.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import { stocktakeTargets } from "../services/auditLog.service";
+import {
+  cancelStocktakeSchema,
+  closeStocktakeSchema,
+  getStocktakesSchema,
+  openStocktakeSchema,
+  stocktakeByIdSchema,
+  submitCountsSchema,
+} from "../validations/stocktake.validation";
+
+// roles allowed to submit counts besides admins (comma separated)
+const COUNTER_ROLES = (process.env.STOCKTAKE_COUNTER_ROLES || "staff")
+  .split(",")
+  .map((role) => role.trim())
+  .filter(Boolean);
+
+const stocktakeRouter = express.Router();
+
+stocktakeRouter.get(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(getStocktakesSchema),
+  getStocktakes
+);
+stocktakeRouter.post(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(openStocktakeSchema),
+  auditTrail("stocktake.open", { resource: "stocktake" }),
+  openStocktake
+);
+stocktakeRouter.get(
+  "/:stocktakeId",
+  authMiddleware,
+  hasRole("admin", ...COUNTER_ROLES),
+  validate(stocktakeByIdSchema),
+  getStocktakeById
+);
+stocktakeRouter.post(
+  "/:stocktakeId/counts",
+  authMiddleware,
+  hasRole("admin", ...COUNTER_ROLES),
+  validate(submitCountsSchema),
+  auditTrail("stocktake.count", { resource: "stocktake" }),
+  submitCounts
+);
+stocktakeRouter.get(
+  "/:stocktakeId/variance",
+  authMiddleware,
+  isAdmin,
+  validate(stocktakeByIdSchema),
+  getVarianceReport
+);
+stocktakeRouter.post(
+  "/:stocktakeId/close",
+  authMiddleware,
+  isAdmin,
+  validate(closeStocktakeSchema),
+  auditTrail("stocktake.close", {
+    resource: "stocktake",
+    targets: stocktakeTargets,
+  }),
+  closeStocktakeById
+);
+stocktakeRouter.post(
+  "/:stocktakeId/cancel",
+  authMiddleware,
+  isAdmin,
+  validate(cancelStocktakeSchema),
+  auditTrail("stocktake.cancel", { resource: "stocktake" }),
+  cancelStocktake
+);
+
+export default stocktakeRouter;
@@ -1,11 +1,18 @@
 import express from "express";
 import {
-    bulkUpdateStock,
+  archiveVariant,
+  archiveVariantsByProductId,
+  bulkPriceChangeByProductId,
+  bulkUpdateStock,
   commitBulkDiscount,
   createVariant,
   createVariants,
+  deleteVariantById,
   getAllVariants,
   getAllVariantsByIds,
+  getBulkDiscountOperation,
+  getBulkDiscountOperations,
+  getLowStockVariants,
   getVariantById,
   getVariantsByProduct,
   getVariantsByProductIds,
@@ -13,62 +20,307 @@ import {
   removeDiscountByProductId,
   removeDiscountByVariantId,
   removeDiscountFromProductService,
+  restoreVariant,
   rollbackBulkDiscount,
   updateDiscount,
   updateDiscountByProductId,
+  updateReorderSettings,
   updateStock,
+  updateVariant,
   updateVariantStatus,
 } from "../controllers/variant.controller";
+import { getStockMovements } from "../controllers/stockMovement.controller";
+import {
+  createQuote,
+  updatePriceTiers,
+} from "../controllers/quote.controller";
+import {
+  getPriceAt,
+  getPriceHistory,
+} from "../controllers/priceHistory.controller";
+import {
+  createBundle,
+  sellBundleById,
+  updateBundle,
+} from "../controllers/bundle.controller";
+import {
+  exportVariantsCsv,
+  importVariantsCsv,
+} from "../controllers/variantCsv.controller";
 import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
 import { isAdmin } from "../middlewares/admin.middleware";
+import { idempotency } from "../middlewares/idempotency.middleware";
+import { isInternalService } from "../middlewares/internal.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import {
+  bulkDiscountTargets,
+  bundleComponentTargets,
+} from "../services/auditLog.service";
+import {
+  archiveVariantSchema,
+  archiveVariantsByProductSchema,
+  bulkDiscountOperationSchema,
+  bulkPriceChangeSchema,
+  bulkUpdateStockSchema,
+  createBundleSchema,
+  createVariantSchema,
+  createVariantsSchema,
+  deleteVariantSchema,
+  exportVariantsSchema,
+  getAllVariantsByIdsSchema,
+  getAllVariantsSchema,
+  getBulkDiscountOperationSchema,
+  getBulkDiscountOperationsSchema,
+  getLowStockVariantsSchema,
+  getPriceAtSchema,
+  getPriceHistorySchema,
+  getStockMovementsSchema,
+  getVariantByIdSchema,
+  getVariantsByProductIdsSchema,
+  getVariantsByProductSchema,
+  importVariantsSchema,
+  prepareBulkDiscountSchema,
+  quoteSchema,
+  removeDiscountByProductIdSchema,
+  removeDiscountByVariantIdSchema,
+  removeDiscountFromProductServiceSchema,
+  restoreVariantSchema,
+  sellBundleSchema,
+  updateBundleSchema,
+  updateDiscountByProductIdSchema,
+  updateDiscountSchema,
+  updatePriceTiersSchema,
+  updateReorderSettingsSchema,
+  updateStockSchema,
+  updateVariantSchema,
+  updateVariantStatusSchema,
+} from "../validations/variant.validation";
 
 const variantRouter = express.Router();
 
+// CSV import body; parsed here so idempotency hashes the actual file
+variantRouter.use(
+  express.text({
+    type: "text/csv",
+    limit: process.env.CSV_BODY_LIMIT || "10mb",
+  })
+);
+
 // create
 variantRouter.post(
   "/create/:productId",
   authMiddleware,
   isAdmin,
+  validate(createVariantSchema),
+  idempotency,
+  auditTrail("variant.create"),
   createVariant
 );
 variantRouter.post(
   "/bulk-create/:productId",
   authMiddleware,
   isAdmin,
+  validate(createVariantsSchema),
+  idempotency,
+  auditTrail("variant.bulk_create"),
   createVariants
 );
 
+// bundles (gift sets made of other variants)
+variantRouter.post(
+  "/bundles/:productId",
+  authMiddleware,
+  isAdmin,
+  validate(createBundleSchema),
+  idempotency,
+  auditTrail("bundle.create"),
+  createBundle
+);
+variantRouter.patch(
+  "/bundles/:variantId",
+  authMiddleware,
+  isAdmin,
+  validate(updateBundleSchema),
+  idempotency,
+  auditTrail("bundle.update"),
+  updateBundle
+);
+variantRouter.post(
+  "/bundles/:variantId/sell",
+  authMiddleware,
+  isAdmin,
+  validate(sellBundleSchema),
+  idempotency,
+  auditTrail("bundle.sell", { targets: bundleComponentTargets }),
+  sellBundleById
+);
+
+// CSV import / export
+variantRouter.get(
+  "/export",
+  authMiddleware,
+  isAdmin,
+  validate(exportVariantsSchema),
+  exportVariantsCsv
+);
+variantRouter.post(
+  "/import",
+  authMiddleware,
+  isAdmin,
+  validate(importVariantsSchema),
+  idempotency,
+  auditTrail("variant.import"),
+  importVariantsCsv
+);
+
 // get
-variantRouter.get("/all-by-variant-ids", getAllVariantsByIds);
-variantRouter.get("/:variantId", getVariantById);
-variantRouter.get("/by-product/:productId", getVariantsByProduct);
-variantRouter.post("/by-product-ids", getVariantsByProductIds);
-variantRouter.get("/", getAllVariants);
+variantRouter.get(
+  "/all-by-variant-ids",
+  validate(getAllVariantsByIdsSchema),
+  getAllVariantsByIds
+);
+variantRouter.get(
+  "/low-stock",
+  authMiddleware,
+  isAdmin,
+  validate(getLowStockVariantsSchema),
+  getLowStockVariants
+);
+// bulk discount operations (admin token + x-internal-key)
+variantRouter.get(
+  "/bulk-discount-operations",
+  authMiddleware,
+  isAdmin,
+  isInternalService,
+  validate(getBulkDiscountOperationsSchema),
+  getBulkDiscountOperations
+);
+variantRouter.get(
+  "/bulk-discount-operations/:operationId",
+  authMiddleware,
+  isAdmin,
+  isInternalService,
+  validate(getBulkDiscountOperationSchema),
+  getBulkDiscountOperation
+);
+variantRouter.get(
+  "/:variantId",
+  validate(getVariantByIdSchema),
+  getVariantById
+);
+variantRouter.get(
+  "/:variantId/movements",
+  authMiddleware,
+  isAdmin,
+  validate(getStockMovementsSchema),
+  getStockMovements
+);
+variantRouter.get(
+  "/:variantId/price-history",
+  authMiddleware,
+  isAdmin,
+  validate(getPriceHistorySchema),
+  getPriceHistory
+);
+variantRouter.get(
+  "/:variantId/price-at",
+  authMiddleware,
+  isAdmin,
+  validate(getPriceAtSchema),
+  getPriceAt
+);
+variantRouter.get(
+  "/by-product/:productId",
+  validate(getVariantsByProductSchema),
+  getVariantsByProduct
+);
+variantRouter.post("/quote", validate(quoteSchema), createQuote);
+variantRouter.post(
+  "/by-product-ids",
+  validate(getVariantsByProductIdsSchema),
+  getVariantsByProductIds
+);
+variantRouter.get(
+  "/",
+  validate(getAllVariantsSchema),
+  getAllVariants
+);
 
 // update
+variantRouter.patch(
+  "/update/:variantId",
+  authMiddleware,
+  isAdmin,
+  validate(updateVariantSchema),
+  idempotency,
+  auditTrail("variant.update"),
+  updateVariant
+);
+variantRouter.patch(
+  "/bulk-price-by-product/:productId",
+  authMiddleware,
+  isAdmin,
+  validate(bulkPriceChangeSchema),
+  idempotency,
+  auditTrail("variant.bulk_price_update"),
+  bulkPriceChangeByProductId
+);
 variantRouter.patch(
   "/update-stock/:variantId",
   authMiddleware,
   isAdmin,
+  validate(updateStockSchema),
+  idempotency,
+  auditTrail("stock.update"),
   updateStock
 );
 variantRouter.patch(
   "/bulk-update-stocks",
   authMiddleware,
   isAdmin,
+  validate(bulkUpdateStockSchema),
+  idempotency,
+  auditTrail("stock.bulk_update"),
   bulkUpdateStock
 );
 
+variantRouter.patch(
+  "/update-reorder/:variantId",
+  authMiddleware,
+  isAdmin,
+  validate(updateReorderSettingsSchema),
+  idempotency,
+  auditTrail("variant.reorder_update"),
+  updateReorderSettings
+);
+
+variantRouter.patch(
+  "/update-price-tiers/:variantId",
+  authMiddleware,
+  isAdmin,
+  validate(updatePriceTiersSchema),
+  idempotency,
+  auditTrail("variant.price_tiers_update"),
+  updatePriceTiers
+);
+
 variantRouter.patch(
   "/update-discount/:variantId",
   authMiddleware,
   isAdmin,
+  validate(updateDiscountSchema),
+  idempotency,
+  auditTrail("discount.update"),
   updateDiscount
 );
 variantRouter.patch(
   "/bulk-discount-by-product/:productId",
   authMiddleware,
   isAdmin,
+  validate(updateDiscountByProductIdSchema),
+  idempotency,
+  auditTrail("discount.update_by_product"),
   updateDiscountByProductId
 );
 
@@ -83,6 +335,9 @@ variantRouter.patch(
   "/remove-discount-by-collection",
   authMiddleware,
   isAdmin,
+  validate(removeDiscountFromProductServiceSchema),
+  idempotency,
+  auditTrail("discount.remove_by_collection"),
   removeDiscountFromProductService
 );
 
@@ -91,6 +346,9 @@ variantRouter.patch(
   "/remove-discount-variant/:variantId",
   authMiddleware,
   isAdmin,
+  validate(removeDiscountByVariantIdSchema),
+  idempotency,
+  auditTrail("discount.remove_by_variant"),
   removeDiscountByVariantId
 );
 
@@ -99,16 +357,48 @@ variantRouter.patch(
   "/remove-discount-product/:productId",
   authMiddleware,
   isAdmin,
+  validate(removeDiscountByProductIdSchema),
+  idempotency,
+  auditTrail("discount.remove_by_product"),
   removeDiscountByProductId
 );
 
-// delete
+// lifecycle: status, archive / restore, delete
 variantRouter.patch(
   "/update-status/:variantId",
   authMiddleware,
   isAdmin,
+  validate(updateVariantStatusSchema),
+  idempotency,
+  auditTrail("variant.status_update"),
   updateVariantStatus
 );
+variantRouter.patch(
+  "/archive/:variantId",
+  authMiddleware,
+  isAdmin,
+  validate(archiveVariantSchema),
+  idempotency,
+  auditTrail("variant.archive"),
+  archiveVariant
+);
+variantRouter.patch(
+  "/restore/:variantId",
+  authMiddleware,
+  isAdmin,
+  validate(restoreVariantSchema),
+  idempotency,
+  auditTrail("variant.restore"),
+  restoreVariant
+);
+variantRouter.delete(
+  "/:variantId",
+  authMiddleware,
+  isAdmin,
+  validate(deleteVariantSchema),
+  auditTrail("variant.delete"),
+  deleteVariantById
+);
 
 // -------------------------------------------------------------------------------------
 
@@ -116,19 +406,39 @@ variantRouter.patch(
   "/update-discount-by-collection",
   authMiddleware,
   isAdmin,
+  validate(prepareBulkDiscountSchema),
+  idempotency,
+  auditTrail("bulk_discount.prepare"),
   prepareBulkDiscount
 );
 variantRouter.post(
   "/commit-bulk-discount",
   authMiddleware,
   isAdmin,
+  validate(bulkDiscountOperationSchema),
+  idempotency,
+  auditTrail("bulk_discount.commit", { targets: bulkDiscountTargets }),
   commitBulkDiscount
 );
 variantRouter.post(
   "/rollback-bulk-discount",
   authMiddleware,
   isAdmin,
+  validate(bulkDiscountOperationSchema),
+  idempotency,
+  auditTrail("bulk_discount.rollback", { targets: bulkDiscountTargets }),
   rollbackBulkDiscount
 );
 
+// product deleted upstream (product-service)
+variantRouter.patch(
+  "/archive-by-product/:productId",
+  authMiddleware,
+  isAdmin,
+  validate(archiveVariantsByProductSchema),
+  idempotency,
+  auditTrail("variant.archive_by_product"),
+  archiveVariantsByProductId
+);
+
 export default variantRouter;
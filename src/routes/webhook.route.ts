@@ -0,0 +1,101 @@
+import express from "express";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookById,
+  getWebhookDeliveries,
+  getWebhookDeliveryById,
+  getWebhooks,
+  replayWebhookDeliveryById,
+  rotateWebhookSecret,
+  updateWebhook,
+} from "../controllers/webhook.controller";
+import { authMiddleware } from "../middlewares/auth.middleware";
+import { auditTrail } from "../middlewares/auditTrail.middleware";
+import { isAdmin } from "../middlewares/admin.middleware";
+import { validate } from "../middlewares/validate.middleware";
+import {
+  createWebhookSchema,
+  getWebhookDeliveriesSchema,
+  getWebhooksSchema,
+  rotateWebhookSecretSchema,
+  updateWebhookSchema,
+  webhookByIdSchema,
+  webhookDeliveryByIdSchema,
+} from "../validations/webhook.validation";
+
+const webhookRouter = express.Router();
+
+webhookRouter.post(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(createWebhookSchema),
+  auditTrail("webhook.create", { resource: "subscription" }),
+  createWebhook
+);
+webhookRouter.get(
+  "/",
+  authMiddleware,
+  isAdmin,
+  validate(getWebhooksSchema),
+  getWebhooks
+);
+
+// deliveries (before /:subscriptionId)
+webhookRouter.get(
+  "/deliveries/:deliveryId",
+  authMiddleware,
+  isAdmin,
+  validate(webhookDeliveryByIdSchema),
+  getWebhookDeliveryById
+);
+webhookRouter.post(
+  "/deliveries/:deliveryId/replay",
+  authMiddleware,
+  isAdmin,
+  validate(webhookDeliveryByIdSchema),
+  auditTrail("webhook.replay_delivery", { resource: "delivery" }),
+  replayWebhookDeliveryById
+);
+
+webhookRouter.get(
+  "/:subscriptionId",
+  authMiddleware,
+  isAdmin,
+  validate(webhookByIdSchema),
+  getWebhookById
+);
+webhookRouter.patch(
+  "/:subscriptionId",
+  authMiddleware,
+  isAdmin,
+  validate(updateWebhookSchema),
+  auditTrail("webhook.update", { resource: "subscription" }),
+  updateWebhook
+);
+webhookRouter.post(
+  "/:subscriptionId/rotate-secret",
+  authMiddleware,
+  isAdmin,
+  validate(rotateWebhookSecretSchema),
+  auditTrail("webhook.rotate_secret", { resource: "subscription" }),
+  rotateWebhookSecret
+);
+webhookRouter.delete(
+  "/:subscriptionId",
+  authMiddleware,
+  isAdmin,
+  validate(webhookByIdSchema),
+  auditTrail("webhook.delete", { resource: "subscription" }),
+  deleteWebhook
+);
+webhookRouter.get(
+  "/:subscriptionId/deliveries",
+  authMiddleware,
+  isAdmin,
+  validate(getWebhookDeliveriesSchema),
+  getWebhookDeliveries
+);
+
+export default webhookRouter;
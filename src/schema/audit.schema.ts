@@ -6,7 +6,8 @@ export interface IAudit {
     productIds: Types.ObjectId[];
     variantCount: number;
     discountPercent: number;
-    status: string;
+    status: string; // pending | committed | rolledback | expired
+    expiresAt?: Date; // pending operations are rolled back after this
     createdBy: Types.ObjectId;
     items: {
         variantId: Types.ObjectId;
@@ -0,0 +1,100 @@
+import { Document, Types } from "mongoose";
+
+// One per mutating route; named "<area>.<verb>"
+export const AUDIT_ACTIONS = [
+  "variant.create",
+  "variant.bulk_create",
+  "variant.import",
+  "variant.update",
+  "variant.bulk_price_update",
+  "variant.status_update",
+  "variant.archive",
+  "variant.restore",
+  "variant.delete",
+  "variant.archive_by_product",
+  "variant.reorder_update",
+  "variant.price_tiers_update",
+  "bundle.create",
+  "bundle.update",
+  "bundle.sell",
+  "stock.update",
+  "stock.bulk_update",
+  "stock.transfer",
+  "discount.update",
+  "discount.update_by_product",
+  "discount.remove_by_variant",
+  "discount.remove_by_product",
+  "discount.remove_by_collection",
+  "bulk_discount.prepare",
+  "bulk_discount.commit",
+  "bulk_discount.rollback",
+  "discount_schedule.create",
+  "discount_schedule.cancel",
+  "location.create",
+  "location.update",
+  "lot.create",
+  "lot.quarantine",
+  "lot.release",
+  "price_list.create",
+  "price_list.update",
+  "price_list.set_prices",
+  "price_list.remove_price",
+  "price_list.discount_update",
+  "purchase_order.create",
+  "purchase_order.update",
+  "purchase_order.send",
+  "purchase_order.receive",
+  "purchase_order.close",
+  "reservation.create",
+  "reservation.confirm",
+  "reservation.release",
+  "stock_alert.acknowledge",
+  "stocktake.open",
+  "stocktake.count",
+  "stocktake.close",
+  "stocktake.cancel",
+  "webhook.create",
+  "webhook.update",
+  "webhook.rotate_secret",
+  "webhook.delete",
+  "webhook.replay_delivery",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export interface IAuditFieldChange {
+  before?: unknown; // missing = the variant did not exist yet
+  after?: unknown;
+}
+
+// Fields of one variant that the request changed
+export interface IAuditVariantChange {
+  variantId: Types.ObjectId;
+  fields: Record<string, IAuditFieldChange>;
+}
+
+export interface IAuditLog {
+  action: AuditAction;
+  actor?: {
+    userId?: Types.ObjectId;
+    role?: string;
+  };
+  variantIds: Types.ObjectId[];
+  productIds: Types.ObjectId[];
+  resource?: {
+    type: string; // e.g. "purchaseOrder", "lot"
+    id?: string;
+  };
+  changes: IAuditVariantChange[];
+  truncated: boolean; // more variants than were snapshotted
+  method: string;
+  path: string;
+  statusCode: number;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface IAuditLogDocument extends IAuditLog, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import { Document, Types } from "mongoose";
+
+export type DiscountScheduleScope = "variant" | "product";
+
+export type DiscountScheduleStatus =
+  | "scheduled"
+  | "active"
+  | "completed"
+  | "cancelled";
+
+export interface IDiscountSchedule {
+  scope: DiscountScheduleScope;
+  targetId: Types.ObjectId; // variantId or productId depending on scope
+  discountPercent: number;
+  startsAt: Date;
+  endsAt: Date;
+  status: DiscountScheduleStatus;
+  // discount fields as they were before activation, used to revert
+  items: {
+    variantId: Types.ObjectId;
+    oldDiscountPercent: number;
+    oldDiscountPrice: number;
+  }[];
+  // what the scheduler (or an admin) did with this schedule
+  history: {
+    action: "activated" | "reverted" | "skipped" | "cancelled";
+    at: Date;
+    variantCount: number;
+    by?: Types.ObjectId;
+  }[];
+  createdBy?: Types.ObjectId;
+}
+
+export interface IDiscountScheduleDocument extends IDiscountSchedule, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,19 @@
+import { Document, Types } from "mongoose";
+
+export interface IIdempotencyKey {
+  caller: string; // userId of the authenticated client
+  key: string;
+  method: string;
+  path: string;
+  requestHash: string; // sha256 of method + path + body
+  status: "processing" | "completed";
+  responseStatus?: number;
+  responseBody?: any;
+  expiresAt: Date;
+}
+
+export interface IIdempotencyKeyDocument extends IIdempotencyKey, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
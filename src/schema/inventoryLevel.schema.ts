@@ -0,0 +1,14 @@
+import { Document, Types } from "mongoose";
+
+// Stock of one variant at one location. Variant.stock is the sum of these.
+export interface IInventoryLevel {
+  variantId: Types.ObjectId;
+  locationId: Types.ObjectId;
+  stock: number;
+}
+
+export interface IInventoryLevelDocument extends IInventoryLevel, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
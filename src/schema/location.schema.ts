@@ -0,0 +1,18 @@
+import { Document, Types } from "mongoose";
+
+export type LocationType = "warehouse" | "store";
+
+export interface ILocation {
+  code: string; // short unique code, e.g. "WH-NORTH"
+  name: string;
+  type: LocationType;
+  address?: string;
+  isActive: boolean;
+  isDefault: boolean; // used when a stock change does not name a location
+}
+
+export interface ILocationDocument extends ILocation, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
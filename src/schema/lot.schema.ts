@@ -0,0 +1,32 @@
+import { Document, Types } from "mongoose";
+
+export const LOT_STATUSES = ["available", "quarantined", "depleted"] as const;
+
+export type LotStatus = (typeof LOT_STATUSES)[number];
+
+// One production batch of a variant; quantity is what is left on hand
+export interface ILot {
+  variantId: Types.ObjectId;
+  batchCode: string; // unique per variant
+  manufacturedAt?: Date;
+  expiresAt?: Date; // none = consumed after every dated lot
+  quantity: number;
+  receivedQuantity: number; // total ever booked into the lot
+  status: LotStatus;
+  quarantinedAt?: Date;
+  quarantineReason?: string;
+  createdBy?: Types.ObjectId;
+}
+
+export interface ILotDocument extends ILot, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// what a stock line took from / added to a lot
+export interface ILotAllocation {
+  lotId: Types.ObjectId;
+  batchCode: string;
+  quantity: number; // signed, like the movement delta
+}
@@ -0,0 +1,43 @@
+import { Document, Types } from "mongoose";
+
+export const DOMAIN_EVENT_TYPES = [
+  "variant.created",
+  "variant.stock_changed",
+  "variant.price_changed",
+  "variant.discount_changed",
+  "variant.status_changed",
+  "variant.deleted",
+] as const;
+
+export type DomainEventType = (typeof DOMAIN_EVENT_TYPES)[number];
+
+// What sinks receive
+export interface DomainEvent {
+  eventId: string;
+  type: DomainEventType;
+  aggregateId: string; // variantId
+  occurredAt: Date;
+  data: Record<string, unknown>;
+}
+
+export type OutboxStatus = "pending" | "dispatched" | "failed";
+
+export interface IOutboxEvent {
+  eventId: string;
+  type: DomainEventType;
+  aggregateId: Types.ObjectId;
+  occurredAt: Date;
+  data: Record<string, unknown>;
+  status: OutboxStatus;
+  attempts: number;
+  availableAt: Date; // not picked up before this (retry backoff / lease)
+  deliveredTo: string[]; // sinks that already acknowledged it
+  lastError?: string;
+  dispatchedAt?: Date;
+}
+
+export interface IOutboxEventDocument extends IOutboxEvent, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
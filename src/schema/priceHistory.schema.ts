@@ -0,0 +1,42 @@
+import { Document, Types } from "mongoose";
+
+export const PRICE_CHANGE_SOURCES = [
+  "create",
+  "discount",
+  "bulk_discount",
+  "bulk_discount_revert",
+  "schedule",
+  "import",
+  "price_edit",
+  "bundle", // component prices moved a bundle priced from its components
+] as const;
+
+export type PriceChangeSource = (typeof PRICE_CHANGE_SOURCES)[number];
+
+export interface PriceState {
+  price: number;
+  discountPercent: number;
+  discountPrice: number;
+}
+
+// One version of a variant's base price, effective from effectiveAt
+export interface IPriceHistory extends PriceState {
+  variantId: Types.ObjectId;
+  version: number; // 1, 2, 3... per variant
+  currency: string;
+  previous?: PriceState; // state this version replaced
+  changedFields: (keyof PriceState)[];
+  source: PriceChangeSource;
+  referenceId?: string; // bulk operation id, schedule id...
+  actor?: {
+    userId?: Types.ObjectId;
+    role?: string;
+  };
+  effectiveAt: Date;
+}
+
+export interface IPriceHistoryDocument extends IPriceHistory, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
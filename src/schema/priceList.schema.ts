@@ -0,0 +1,32 @@
+import { Document, Types } from "mongoose";
+
+// A set of per-variant prices in one currency, optionally for one region
+export interface IPriceList {
+  code: string; // e.g. "EU-EUR", "UK-GBP"
+  name: string;
+  currency: string; // ISO 4217
+  region?: string; // e.g. "EU", "UK"
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+}
+
+export interface IPriceListDocument extends IPriceList, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Price of one variant on one price list
+export interface IVariantPrice {
+  priceListId: Types.ObjectId;
+  variantId: Types.ObjectId;
+  price: number;
+  discountPercent: number;
+  discountPrice: number;
+}
+
+export interface IVariantPriceDocument extends IVariantPrice, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,60 @@
+import { Document, Types } from "mongoose";
+
+export const PURCHASE_ORDER_STATUSES = [
+  "draft",
+  "sent",
+  "partially_received",
+  "received",
+  "closed",
+] as const;
+
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+// statuses that still expect goods, counted as "incoming" on variants
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  "sent",
+  "partially_received",
+];
+
+// over = more received than ordered, under = closed short
+export type ReceiptFlag = "over" | "under";
+
+export interface IPurchaseOrderLine {
+  _id: Types.ObjectId;
+  variantId: Types.ObjectId;
+  orderedQuantity: number;
+  unitCost: number;
+  receivedQuantity: number;
+  flag?: ReceiptFlag;
+}
+
+export interface IPurchaseOrderReceipt {
+  receivedAt: Date;
+  receivedBy?: Types.ObjectId;
+  locationId?: Types.ObjectId;
+  note?: string;
+  items: { variantId: Types.ObjectId; quantity: number }[];
+}
+
+export interface IPurchaseOrder {
+  poNumber: string;
+  supplier: {
+    name: string;
+    email?: string;
+    phone?: string;
+  };
+  lines: IPurchaseOrderLine[];
+  status: PurchaseOrderStatus;
+  expectedAt?: Date;
+  notes?: string;
+  receipts: IPurchaseOrderReceipt[];
+  sentAt?: Date;
+  closedAt?: Date;
+  createdBy?: Types.ObjectId;
+}
+
+export interface IPurchaseOrderDocument extends IPurchaseOrder, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
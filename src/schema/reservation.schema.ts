@@ -0,0 +1,24 @@
+import { Document, Types } from "mongoose";
+
+export type ReservationStatus = "active" | "confirmed" | "released" | "expired";
+
+export interface IReservationItem {
+  variantId: Types.ObjectId;
+  quantity: number;
+}
+
+export interface IReservation {
+  referenceId?: string; // e.g. cart or order id from order-service
+  items: IReservationItem[];
+  status: ReservationStatus;
+  expiresAt: Date;
+  confirmedAt?: Date;
+  releasedAt?: Date;
+  createdBy?: Types.ObjectId;
+}
+
+export interface IReservationDocument extends IReservation, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
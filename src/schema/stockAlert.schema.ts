@@ -0,0 +1,22 @@
+import { Document, Types } from "mongoose";
+
+export type StockAlertStatus = "open" | "acknowledged" | "resolved";
+
+export interface IStockAlert {
+  variantId: Types.ObjectId;
+  type: "low_stock";
+  stock: number; // stock when the threshold was crossed
+  reorderPoint: number;
+  reorderQuantity?: number;
+  status: StockAlertStatus;
+  acknowledgedBy?: Types.ObjectId;
+  acknowledgedAt?: Date;
+  note?: string;
+  resolvedAt?: Date;
+}
+
+export interface IStockAlertDocument extends IStockAlert, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
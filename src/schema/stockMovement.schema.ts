@@ -0,0 +1,34 @@
+import { Document, Types } from "mongoose";
+import { ILotAllocation } from "./lot.schema";
+
+export const STOCK_MOVEMENT_REASONS = [
+  "sale",
+  "restock",
+  "adjustment",
+  "return",
+  "damage",
+  "transfer",
+] as const;
+
+export type StockMovementReason = (typeof STOCK_MOVEMENT_REASONS)[number];
+
+export interface IStockMovement {
+  variantId: Types.ObjectId;
+  delta: number; // signed change applied to stock
+  balance: number; // aggregate stock after the change
+  locationId?: Types.ObjectId;
+  locationBalance?: number; // stock at locationId after the change
+  reason: StockMovementReason;
+  actor?: {
+    userId?: Types.ObjectId;
+    role?: string;
+  };
+  referenceId?: string; // order id, PO number, reservation id...
+  lots?: ILotAllocation[]; // lot split of the stock line (first movement only)
+}
+
+export interface IStockMovementDocument extends IStockMovement, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
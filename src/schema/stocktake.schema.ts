@@ -0,0 +1,45 @@
+import { Document, Types } from "mongoose";
+
+export const STOCKTAKE_STATUSES = ["open", "closed", "cancelled"] as const;
+
+export type StocktakeStatus = (typeof STOCKTAKE_STATUSES)[number];
+
+// one submission for one line; "add" sums shelves, "set" is a recount
+export interface IStocktakeCount {
+  quantity: number;
+  mode: "set" | "add";
+  pass: number;
+  countedBy?: Types.ObjectId;
+  countedAt: Date;
+}
+
+export interface IStocktakeLine {
+  _id: Types.ObjectId;
+  variantId: Types.ObjectId;
+  sku: string;
+  expectedQuantity: number; // snapshot taken when the count was opened
+  unitPrice: number; // snapshot, values the variance
+  countedQuantity?: number; // missing until counted
+  counts: IStocktakeCount[];
+  movedBeforeCount?: number; // net stock movements between open and count, set on close
+  adjustment?: number; // posted on close
+}
+
+export interface IStocktake {
+  code: string; // ST-YYYYMMDD-XXXX
+  locationId?: Types.ObjectId; // none = whole variant across locations
+  status: StocktakeStatus;
+  note?: string;
+  lines: IStocktakeLine[];
+  passes: number; // count submissions so far
+  openedBy?: Types.ObjectId;
+  closedBy?: Types.ObjectId;
+  closedAt?: Date;
+  cancelledAt?: Date;
+}
+
+export interface IStocktakeDocument extends IStocktake, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
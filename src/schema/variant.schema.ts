@@ -1,19 +1,63 @@
 import { Document, Types } from "mongoose";
 
+// Unit price for quantities minQuantity..maxQuantity (open-ended if no max)
+export interface IPriceTier {
+  minQuantity: number;
+  maxQuantity?: number;
+  unitPrice: number;
+}
+
+export const VARIANT_KINDS = ["standard", "bundle"] as const;
+export type VariantKind = (typeof VARIANT_KINDS)[number];
+
+// Lifecycle; only "active" is sellable (isActive mirrors it)
+export const VARIANT_STATUSES = [
+  "draft",
+  "active",
+  "inactive",
+  "archived",
+] as const;
+export type VariantStatus = (typeof VARIANT_STATUSES)[number];
+
+// quantity of one standard variant contained in a bundle
+export interface IBundleComponent {
+  variantId: Types.ObjectId;
+  quantity: number;
+}
+
+// "components" = sum of component prices minus discountPercent
+export interface IBundlePricing {
+  mode: "fixed" | "components";
+  discountPercent: number;
+}
+
 export interface IVariant {
   productId: Types.ObjectId;
   size: string; // e.g., "50ml", "100ml"
   sku: string; // Unique per variant
   price: number;
-  stock: number;
+  stock: number; // on-hand quantity
+  reserved: number; // held by active reservations
+  quarantined: number; // in quarantined lots, on hand but not sellable
   isActive: boolean;
+  status: VariantStatus;
+  archivedAt?: Date;
   createdBy?: Types.ObjectId;
   discountPrice?: number;
   discountPercent?: number
+  reorderPoint?: number; // alert when stock falls to or below this
+  reorderQuantity?: number; // suggested quantity to order
+  priceTiers: IPriceTier[]; // quantity breaks, ascending; replace price
+  kind: VariantKind;
+  // bundles only: stock is derived from the components, never booked directly
+  components?: IBundleComponent[];
+  bundlePricing?: IBundlePricing;
 }
 
 export interface IVariantDocument extends IVariant, Document {
     _id : Types.ObjectId,
     createdAt : Date,
-    updatedAt : Date
+    updatedAt : Date,
+    onHand : number,
+    available : number
 }
@@ -0,0 +1,58 @@
+import { Document, Types } from "mongoose";
+import { DOMAIN_EVENT_TYPES } from "./outboxEvent.schema";
+
+// Domain events plus the stock transitions partners usually care about
+export const WEBHOOK_EVENT_TYPES = [
+  ...DOMAIN_EVENT_TYPES,
+  "variant.out_of_stock",
+  "variant.back_in_stock",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export interface IWebhookSubscription {
+  url: string;
+  events: WebhookEventType[]; // event filter, at least one type
+  secret: string; // HMAC key, only returned when created or rotated
+  description?: string;
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+}
+
+export interface IWebhookSubscriptionDocument
+  extends IWebhookSubscription,
+    Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface IWebhookAttempt {
+  attemptedAt: Date;
+  statusCode?: number; // missing when no response came back
+  error?: string;
+  durationMs: number;
+}
+
+// One event sent to one subscription
+export interface IWebhookDelivery {
+  subscriptionId: Types.ObjectId;
+  eventId: string; // source domain event
+  eventType: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attemptCount: number; // attempts in the current round, reset by a replay
+  availableAt: Date; // next attempt not before this (backoff / lease)
+  attempts: IWebhookAttempt[];
+  lastError?: string;
+  deliveredAt?: Date;
+  replayedAt?: Date;
+}
+
+export interface IWebhookDeliveryDocument extends IWebhookDelivery, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,199 @@
+import { Request } from "express";
+import { Types } from "mongoose";
+import Variant from "../models/variant.model";
+import Audit from "../models/audit.model";
+import Lot from "../models/lot.model";
+import Reservation from "../models/reservation.model";
+import Stocktake from "../models/stocktake.model";
+import { IAuditVariantChange } from "../schema/auditLog.schema";
+
+// Variant fields compared before / after a request
+const AUDITED_FIELDS = [
+  "sku",
+  "size",
+  "price",
+  "discountPercent",
+  "discountPrice",
+  "stock",
+  "reserved",
+  "quarantined",
+  "isActive",
+  "status",
+  "archivedAt",
+  "reorderPoint",
+  "reorderQuantity",
+  "priceTiers",
+  "kind",
+  "components",
+  "bundlePricing",
+] as const;
+
+// Product-wide routes can touch many variants; past this only ids are kept
+const SNAPSHOT_LIMIT = Number(process.env.AUDIT_SNAPSHOT_LIMIT) || 500;
+
+export interface AuditTargets {
+  variantIds: string[];
+  productIds: string[];
+}
+
+// variantId -> audited fields, as plain JSON
+export type VariantSnapshot = Map<string, Record<string, unknown>>;
+
+const toIds = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((v) => v != null && Types.ObjectId.isValid(v))
+    .map((v) => v.toString());
+};
+
+/**
+ * Variants and products a request names: route params, top-level body ids,
+ * and `variantId` on the items of body arrays (updates, items, prices...).
+ */
+export const requestTargets = (req: Request): AuditTargets => {
+  const variantIds = toIds(req.params.variantId);
+  const productIds = toIds(req.params.productId);
+
+  const body = req.body;
+  if (body && typeof body === "object") {
+    variantIds.push(...toIds(body.variantId), ...toIds(body.variantIds));
+    productIds.push(...toIds(body.productId), ...toIds(body.productIds));
+
+    for (const value of Object.values(body)) {
+      if (!Array.isArray(value)) continue;
+      for (const item of value) {
+        if (item && typeof item === "object") {
+          variantIds.push(...toIds(item.variantId));
+        }
+      }
+    }
+  }
+
+  return {
+    variantIds: [...new Set(variantIds)],
+    productIds: [...new Set(productIds)],
+  };
+};
+
+export const mergeTargets = (
+  a: AuditTargets,
+  b: Partial<AuditTargets>
+): AuditTargets => ({
+  variantIds: [...new Set([...a.variantIds, ...(b.variantIds || [])])],
+  productIds: [...new Set([...a.productIds, ...(b.productIds || [])])],
+});
+
+// Variants a response returns (creates): `variant` or `variants`
+export const responseVariantIds = (body: any): string[] => {
+  if (!body || typeof body !== "object") return [];
+  const variants = body.variants || (body.variant ? [body.variant] : []);
+  return Array.isArray(variants) ? toIds(variants.map((v: any) => v?._id)) : [];
+};
+
+/**
+ * Audited fields of the targeted variants (by id, or every variant of the
+ * targeted products). Returns `truncated` when there were more than the
+ * snapshot limit.
+ */
+export const snapshotVariants = async (targets: AuditTargets) => {
+  const snapshot: VariantSnapshot = new Map();
+
+  const or: any[] = [];
+  if (targets.variantIds.length) or.push({ _id: { $in: targets.variantIds } });
+  if (targets.productIds.length) {
+    or.push({ productId: { $in: targets.productIds } });
+  }
+  if (!or.length) return { snapshot, productIds: [], truncated: false };
+
+  const variants = await Variant.find({ $or: or })
+    .select(`${AUDITED_FIELDS.join(" ")} productId`)
+    .sort({ _id: 1 })
+    .limit(SNAPSHOT_LIMIT + 1)
+    .lean();
+
+  const productIds = new Set<string>();
+  for (const variant of variants.slice(0, SNAPSHOT_LIMIT)) {
+    productIds.add(variant.productId.toString());
+    const fields: Record<string, unknown> = {};
+    for (const field of AUDITED_FIELDS) {
+      // ObjectIds, dates and subdocuments compare as their JSON form
+      fields[field] = JSON.parse(JSON.stringify(variant[field] ?? null));
+    }
+    snapshot.set(variant._id.toString(), fields);
+  }
+
+  return {
+    snapshot,
+    productIds: [...productIds],
+    truncated: variants.length > SNAPSHOT_LIMIT,
+  };
+};
+
+// Fields that differ per variant; unchanged variants are left out
+export const diffSnapshots = (
+  before: VariantSnapshot,
+  after: VariantSnapshot
+) => {
+  const changes: IAuditVariantChange[] = [];
+
+  for (const id of new Set([...before.keys(), ...after.keys()])) {
+    const previous = before.get(id);
+    const current = after.get(id);
+    const fields: IAuditVariantChange["fields"] = {};
+
+    for (const field of AUDITED_FIELDS) {
+      const a = previous?.[field];
+      const b = current?.[field];
+      if (JSON.stringify(a) === JSON.stringify(b)) continue;
+      fields[field] = {
+        ...(previous && { before: a }),
+        ...(current && { after: b }),
+      };
+    }
+
+    if (Object.keys(fields).length) {
+      changes.push({ variantId: new Types.ObjectId(id), fields });
+    }
+  }
+
+  return changes;
+};
+
+// Target resolvers for routes whose variants are not named in the request
+
+export const reservationTargets = async (req: Request) => {
+  const reservation = await Reservation.findById(req.params.reservationId)
+    .select("items.variantId")
+    .lean();
+  return { variantIds: toIds(reservation?.items.map((i) => i.variantId)) };
+};
+
+export const lotTargets = async (req: Request) => {
+  const lot = await Lot.findById(req.params.lotId).select("variantId").lean();
+  return { variantIds: toIds(lot?.variantId) };
+};
+
+export const stocktakeTargets = async (req: Request) => {
+  const stocktake = await Stocktake.findById(req.params.stocktakeId)
+    .select("lines.variantId")
+    .lean();
+  return { variantIds: toIds(stocktake?.lines.map((l) => l.variantId)) };
+};
+
+export const bulkDiscountTargets = async (req: Request) => {
+  const operation = await Audit.findOne({ operationId: req.body?.operationId })
+    .select("items.variantId productIds")
+    .lean();
+  return {
+    variantIds: toIds(operation?.items.map((i) => i.variantId)),
+    productIds: toIds(operation?.productIds),
+  };
+};
+
+// a sale moves the components' stock, the bundle's follows from them
+export const bundleComponentTargets = async (req: Request) => {
+  const bundle = await Variant.findById(req.params.variantId)
+    .select("components.variantId")
+    .lean();
+  return { variantIds: toIds(bundle?.components?.map((c) => c.variantId)) };
+};
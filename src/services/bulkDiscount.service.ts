@@ -0,0 +1,137 @@
+import { ClientSession, startSession } from "mongoose";
+import Audit from "../models/audit.model";
+import Variant from "../models/variant.model";
+import { IAuditDocument } from "../schema/audit.schema";
+import logger from "../utils/logger";
+import { computeDiscountPrice } from "../utils/pricing";
+import { priceStateOf, recordPriceChanges } from "./priceHistory.service";
+
+export const PENDING_OPERATION_TIMEOUT_MS =
+  (Number(process.env.BULK_DISCOUNT_PENDING_TIMEOUT_MINUTES) || 30) * 60 * 1000;
+
+export const pendingExpiry = (from = new Date()) =>
+  new Date(from.getTime() + PENDING_OPERATION_TIMEOUT_MS);
+
+// Operations created before expiresAt existed fall back to createdAt + timeout
+const expiredPendingQuery = (now: Date) => ({
+  status: "pending",
+  $or: [
+    { expiresAt: { $lte: now } },
+    {
+      expiresAt: null,
+      createdAt: { $lte: new Date(now.getTime() - PENDING_OPERATION_TIMEOUT_MS) },
+    },
+  ],
+});
+
+export const isPendingExpired = (audit: IAuditDocument, now = new Date()) =>
+  (audit.expiresAt || pendingExpiry(audit.createdAt)) <= now;
+
+/**
+ * Restore the discount percent captured in audit.items and close the
+ * operation with the given status. discountPrice is derived from the current
+ * price, and variants whose discount was changed after prepare are left alone.
+ */
+export const revertBulkDiscount = async (
+  audit: IAuditDocument,
+  status: "rolledback" | "expired",
+  session: ClientSession
+) => {
+  const oldPercents = new Map(
+    audit.items.map((item) => [
+      item.variantId.toString(),
+      item.oldDiscountPercent,
+    ])
+  );
+
+  // only variants still carrying the discount this operation applied
+  const variants = await Variant.find({
+    _id: { $in: audit.items.map((item) => item.variantId) },
+    discountPercent: audit.discountPercent,
+  })
+    .select("price discountPercent discountPrice")
+    .session(session);
+
+  const bulkOps = variants.map((variant) => {
+    const discountPercent = oldPercents.get(variant._id.toString()) || 0;
+    variant.discountPercent = discountPercent;
+    variant.discountPrice = computeDiscountPrice(
+      variant.price,
+      discountPercent
+    );
+    return {
+      updateOne: {
+        filter: {
+          _id: variant._id,
+          price: variant.price,
+          discountPercent: audit.discountPercent,
+        },
+        update: {
+          $set: { discountPercent, discountPrice: variant.discountPrice },
+        },
+      },
+    };
+  });
+
+  if (bulkOps.length) {
+    await Variant.bulkWrite(bulkOps, { session });
+  }
+
+  await recordPriceChanges(
+    variants.map((v) => ({ variantId: v._id, after: priceStateOf(v) })),
+    {
+      source: "bulk_discount_revert",
+      referenceId: audit.operationId,
+      // the pending discount was never announced, so neither is its revert
+      emitEvents: false,
+    },
+    session
+  );
+
+  audit.status = status;
+  await audit.save({ session });
+};
+
+/**
+ * Roll back pending operations that nobody committed or rolled back in time
+ * (e.g. product-service crashed mid-flow). Each one runs in its own
+ * transaction.
+ */
+export const reapExpiredBulkDiscounts = async (batchSize = 50) => {
+  const now = new Date();
+  const expired = await Audit.find(expiredPendingQuery(now))
+    .select("operationId")
+    .limit(batchSize);
+
+  let count = 0;
+
+  for (const { operationId } of expired) {
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      // re-read inside the transaction, it may have been committed meanwhile
+      const audit = await Audit.findOne({
+        operationId,
+        status: "pending",
+      }).session(session);
+
+      if (audit) {
+        await revertBulkDiscount(audit, "expired", session);
+        count++;
+        logger.warn(`Bulk discount operation expired: ${operationId}`);
+      }
+
+      await session.commitTransaction();
+    } catch (error: any) {
+      await session.abortTransaction();
+      logger.error(
+        `Failed to expire bulk discount ${operationId}: ${error.message}`
+      );
+    } finally {
+      session.endSession();
+    }
+  }
+
+  return count;
+};
@@ -0,0 +1,163 @@
+import { ClientSession, Types } from "mongoose";
+import Variant from "../models/variant.model";
+import {
+  IBundleComponent,
+  IBundlePricing,
+  IVariantDocument,
+} from "../schema/variant.schema";
+import { AppError } from "../utils/appError";
+import { computeDiscountPrice, roundAmount } from "../utils/pricing";
+import { priceStateOf, recordPriceChanges } from "./priceHistory.service";
+import { applyStockChanges, StockActor } from "./stock.service";
+
+export interface BundleComponentInput {
+  variantId: Types.ObjectId | string;
+  quantity: number;
+}
+
+/**
+ * Load the variants a bundle is made of. Components must exist and be
+ * standard variants (no bundles of bundles), and not the bundle itself.
+ */
+export const loadBundleComponents = async (
+  components: BundleComponentInput[],
+  bundleId?: Types.ObjectId | string,
+  session?: ClientSession
+) => {
+  const ids = components.map((c) => c.variantId.toString());
+  if (bundleId && ids.includes(bundleId.toString())) {
+    throw new AppError("A bundle cannot contain itself", 400);
+  }
+
+  const variants = await Variant.find({ _id: { $in: ids } }).session(
+    session || null
+  );
+  const byId = new Map(variants.map((v) => [v._id.toString(), v]));
+
+  const missing = ids.filter((id) => !byId.has(id));
+  if (missing.length) {
+    throw new AppError(`Component variant(s) not found: ${missing.join(", ")}`, 404);
+  }
+  const nested = variants.filter((v) => v.kind === "bundle");
+  if (nested.length) {
+    throw new AppError(
+      `Bundles cannot contain other bundles: ${nested.map((v) => v.sku).join(", ")}`,
+      400
+    );
+  }
+
+  return byId;
+};
+
+// Price of a bundle: fixed, or its components' prices less discountPercent
+export const bundlePrice = (
+  pricing: IBundlePricing & { price?: number },
+  components: BundleComponentInput[],
+  priceById: Map<string, number>
+) => {
+  if (pricing.mode === "fixed") return pricing.price!;
+
+  const total = components.reduce(
+    (sum, { variantId, quantity }) =>
+      sum + (priceById.get(variantId.toString()) || 0) * quantity,
+    0
+  );
+  return roundAmount(total * (1 - (pricing.discountPercent || 0) / 100), 0);
+};
+
+/**
+ * Re-derive the price of bundles priced from their components after
+ * component prices changed. Call it in the same session as the price write.
+ */
+export const syncBundlePrices = async (
+  componentIds: (Types.ObjectId | string)[],
+  actor: StockActor | undefined,
+  session?: ClientSession
+) => {
+  const bundles = await Variant.find({
+    kind: "bundle",
+    "bundlePricing.mode": "components",
+    "components.variantId": { $in: componentIds },
+  }).session(session || null);
+  if (!bundles.length) return [];
+
+  const ids = new Set(
+    bundles.flatMap((b) => b.components!.map((c) => c.variantId.toString()))
+  );
+  const components = await Variant.find({ _id: { $in: [...ids] } })
+    .select("price")
+    .session(session || null);
+  const priceById = new Map(components.map((c) => [c._id.toString(), c.price]));
+
+  const changes = [];
+  for (const bundle of bundles) {
+    const price = bundlePrice(bundle.bundlePricing!, bundle.components!, priceById);
+    if (price === bundle.price) continue;
+
+    const before = priceStateOf(bundle);
+    bundle.price = price;
+    bundle.discountPrice = computeDiscountPrice(price, bundle.discountPercent || 0);
+    await bundle.save({ session });
+    changes.push({ variantId: bundle._id, before, after: priceStateOf(bundle) });
+  }
+
+  await recordPriceChanges(changes, { source: "bundle", actor }, session);
+  return changes;
+};
+
+/**
+ * Replace bundle lines with the component quantities they stand for, so a
+ * reservation holds (and its confirmation sells) the actual bottles.
+ */
+export const expandBundleItems = async (
+  items: { variantId: string; quantity: number }[]
+) => {
+  const bundles = await Variant.find({
+    _id: { $in: items.map((i) => i.variantId) },
+    kind: "bundle",
+  }).select("components isActive");
+  if (!bundles.length) return items;
+
+  const byId = new Map(bundles.map((b) => [b._id.toString(), b]));
+  return items.flatMap((item) => {
+    const bundle = byId.get(item.variantId.toString());
+    if (!bundle) return [item];
+    if (!bundle.isActive) {
+      throw new AppError(`Bundle is not active: ${item.variantId}`, 409);
+    }
+    return bundle.components!.map((c) => ({
+      variantId: c.variantId.toString(),
+      quantity: c.quantity * item.quantity,
+    }));
+  });
+};
+
+/**
+ * Sell `quantity` bundles: every component is decremented in one batch, so
+ * either the whole set leaves stock or nothing does. Must run in a transaction.
+ */
+export const sellBundle = async (
+  bundle: IVariantDocument,
+  quantity: number,
+  referenceId: string | undefined,
+  actor: StockActor | undefined,
+  session: ClientSession
+) => {
+  if (bundle.kind !== "bundle") {
+    throw new AppError("Variant is not a bundle", 400);
+  }
+  if (!bundle.isActive) throw new AppError("Bundle is not active", 409);
+
+  const { results, variants } = await applyStockChanges(
+    bundle.components!.map((component: IBundleComponent) => ({
+      variantId: component.variantId,
+      delta: -component.quantity * quantity,
+      reason: "sale" as const,
+      referenceId: referenceId || `bundle:${bundle.sku}`,
+    })),
+    actor,
+    session
+  );
+
+  return { results, components: Array.from(variants.values()) };
+};
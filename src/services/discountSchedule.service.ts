@@ -0,0 +1,258 @@
+import { ClientSession, startSession, Types } from "mongoose";
+import DiscountSchedule from "../models/discountSchedule.model";
+import Variant from "../models/variant.model";
+import {
+  DiscountScheduleScope,
+  IDiscountScheduleDocument,
+} from "../schema/discountSchedule.schema";
+import { computeDiscountPrice } from "../utils/pricing";
+import logger from "../utils/logger";
+import { priceStateOf, recordPriceChanges } from "./priceHistory.service";
+
+const findScheduleVariants = (
+  schedule: IDiscountScheduleDocument,
+  session: ClientSession
+) =>
+  Variant.find(
+    schedule.scope === "variant"
+      ? { _id: schedule.targetId }
+      : { productId: schedule.targetId }
+  ).session(session);
+
+/**
+ * Overlap rule: a variant can be covered by at most one scheduled or active
+ * schedule at any instant, whether it is targeted directly or through its
+ * product. Returns the first conflicting schedule, if any.
+ */
+export const findOverlappingSchedule = async (schedule: {
+  scope: DiscountScheduleScope;
+  targetId: Types.ObjectId;
+  startsAt: Date;
+  endsAt: Date;
+}) => {
+  const { scope, targetId, startsAt, endsAt } = schedule;
+  const targets: any[] = [{ scope, targetId }];
+
+  if (scope === "variant") {
+    const variant = await Variant.findById(targetId).select("productId");
+    if (variant) targets.push({ scope: "product", targetId: variant.productId });
+  } else {
+    const variants = await Variant.find({ productId: targetId }).select("_id");
+    targets.push({
+      scope: "variant",
+      targetId: { $in: variants.map((v) => v._id) },
+    });
+  }
+
+  return DiscountSchedule.findOne({
+    status: { $in: ["scheduled", "active"] },
+    startsAt: { $lt: endsAt },
+    endsAt: { $gt: startsAt },
+    $or: targets,
+  });
+};
+
+// Snapshot current discounts and apply the scheduled one
+export const activateSchedule = async (
+  schedule: IDiscountScheduleDocument,
+  session: ClientSession
+) => {
+  const variants = await findScheduleVariants(schedule, session);
+
+  schedule.items = variants.map((v) => ({
+    variantId: v._id,
+    oldDiscountPercent: v.discountPercent || 0,
+    oldDiscountPrice: v.discountPrice || 0,
+  }));
+
+  const bulkOps = variants.map((v) => ({
+    updateOne: {
+      filter: { _id: v._id },
+      update: {
+        $set: {
+          discountPercent: schedule.discountPercent,
+          discountPrice: computeDiscountPrice(v.price, schedule.discountPercent),
+        },
+      },
+    },
+  }));
+
+  if (bulkOps.length) {
+    await Variant.bulkWrite(bulkOps, { session });
+  }
+
+  await recordPriceChanges(
+    variants.map((v) => ({
+      variantId: v._id,
+      before: priceStateOf(v),
+      after: {
+        price: v.price,
+        discountPercent: schedule.discountPercent,
+        discountPrice: computeDiscountPrice(v.price, schedule.discountPercent),
+      },
+    })),
+    { source: "schedule", referenceId: schedule._id.toString() },
+    session
+  );
+
+  schedule.status = "active";
+  schedule.history.push({
+    action: "activated",
+    at: new Date(),
+    variantCount: variants.length,
+  });
+  await schedule.save({ session });
+};
+
+/**
+ * Restore the discount percent snapshotted on activation; discountPrice is
+ * derived from the current price, which may have changed while the schedule
+ * ran. Variants whose discount was changed by someone else while the schedule
+ * was live are left alone.
+ */
+export const revertSchedule = async (
+  schedule: IDiscountScheduleDocument,
+  action: "reverted" | "cancelled",
+  by: Types.ObjectId | undefined,
+  session: ClientSession
+) => {
+  const itemByVariant = new Map(
+    schedule.items.map((item) => [item.variantId.toString(), item])
+  );
+
+  // the ones still carrying the scheduled discount
+  const reverting = await Variant.find({
+    _id: { $in: schedule.items.map((item) => item.variantId) },
+    discountPercent: schedule.discountPercent,
+  }).session(session);
+
+  const changes = reverting.map((v) => {
+    const { oldDiscountPercent } = itemByVariant.get(v._id.toString())!;
+    return {
+      variantId: v._id,
+      before: priceStateOf(v),
+      after: {
+        price: v.price,
+        discountPercent: oldDiscountPercent,
+        discountPrice: computeDiscountPrice(v.price, oldDiscountPercent),
+      },
+    };
+  });
+
+  let variantCount = 0;
+  if (changes.length) {
+    const result = await Variant.bulkWrite(
+      changes.map(({ variantId, before, after }) => ({
+        updateOne: {
+          filter: {
+            _id: variantId,
+            price: before.price,
+            discountPercent: schedule.discountPercent,
+          },
+          update: {
+            $set: {
+              discountPercent: after.discountPercent,
+              discountPrice: after.discountPrice,
+            },
+          },
+        },
+      })),
+      { session }
+    );
+    variantCount = result.modifiedCount;
+  }
+
+  await recordPriceChanges(
+    changes,
+    {
+      source: "schedule",
+      referenceId: schedule._id.toString(),
+      actor: by ? { userId: by } : undefined,
+    },
+    session
+  );
+
+  schedule.status = action === "reverted" ? "completed" : "cancelled";
+  schedule.history.push({ action, at: new Date(), variantCount, by });
+  await schedule.save({ session });
+};
+
+// Run one schedule transition in its own transaction
+const runTransition = async (
+  scheduleId: Types.ObjectId,
+  expectedStatus: "scheduled" | "active",
+  transition: (
+    schedule: IDiscountScheduleDocument,
+    session: ClientSession
+  ) => Promise<void>
+) => {
+  const session = await startSession();
+  session.startTransaction();
+
+  try {
+    // re-read inside the transaction, it may have been cancelled meanwhile
+    const schedule = await DiscountSchedule.findOne({
+      _id: scheduleId,
+      status: expectedStatus,
+    }).session(session);
+
+    if (schedule) await transition(schedule, session);
+
+    await session.commitTransaction();
+    return !!schedule;
+  } catch (error: any) {
+    await session.abortTransaction();
+    logger.error(`Discount schedule ${scheduleId} failed: ${error.message}`);
+    return false;
+  } finally {
+    session.endSession();
+  }
+};
+
+/**
+ * One scheduler tick: end schedules whose window has passed, then start the
+ * ones that are due. Ending first lets back-to-back schedules hand over
+ * cleanly within a single tick.
+ */
+export const runDiscountSchedules = async (now = new Date()) => {
+  const summary = { activated: 0, reverted: 0, skipped: 0 };
+
+  const ending = await DiscountSchedule.find({
+    status: "active",
+    endsAt: { $lte: now },
+  }).select("_id");
+  for (const { _id } of ending) {
+    const done = await runTransition(_id, "active", (schedule, session) =>
+      revertSchedule(schedule, "reverted", undefined, session)
+    );
+    if (done) summary.reverted++;
+  }
+
+  // windows that passed entirely while the service was down
+  const missed = await DiscountSchedule.find({
+    status: "scheduled",
+    endsAt: { $lte: now },
+  }).select("_id");
+  for (const { _id } of missed) {
+    const done = await runTransition(_id, "scheduled", async (schedule, session) => {
+      schedule.status = "completed";
+      schedule.history.push({ action: "skipped", at: now, variantCount: 0 });
+      await schedule.save({ session });
+    });
+    if (done) summary.skipped++;
+  }
+
+  const starting = await DiscountSchedule.find({
+    status: "scheduled",
+    startsAt: { $lte: now },
+    endsAt: { $gt: now },
+  })
+    .sort({ startsAt: 1 })
+    .select("_id");
+  for (const { _id } of starting) {
+    const done = await runTransition(_id, "scheduled", activateSchedule);
+    if (done) summary.activated++;
+  }
+
+  return summary;
+};
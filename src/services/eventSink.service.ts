@@ -0,0 +1,63 @@
+import { EventEmitter } from "events";
+import { DomainEvent } from "../schema/outboxEvent.schema";
+
+/**
+ * Where the outbox dispatcher delivers events. publish() must throw if the
+ * event was not accepted; it is then retried, so sinks see every event at
+ * least once and should tolerate duplicates (dedupe on eventId).
+ */
+export interface EventSink {
+  name: string; // stable, recorded per event once delivered
+  publish(event: DomainEvent): Promise<void>;
+}
+
+// Delivers events to listeners in this process; also handy in tests
+export class InProcessEventSink implements EventSink {
+  readonly name = "in-process";
+  readonly received: DomainEvent[] = [];
+  private readonly emitter = new EventEmitter();
+  private readonly maxKept: number;
+
+  constructor(maxKept = 1000) {
+    this.maxKept = maxKept;
+  }
+
+  // listen to one event type, or "*" for all
+  on(type: string, listener: (event: DomainEvent) => void | Promise<void>) {
+    this.emitter.on(type, listener);
+    return () => {
+      this.emitter.off(type, listener);
+    };
+  }
+
+  async publish(event: DomainEvent) {
+    this.received.push(event);
+    if (this.received.length > this.maxKept) this.received.shift();
+
+    const listeners = [
+      ...this.emitter.listeners(event.type),
+      ...this.emitter.listeners("*"),
+    ];
+    for (const listener of listeners) {
+      await listener(event);
+    }
+  }
+
+  clear() {
+    this.received.length = 0;
+  }
+}
+
+export const inProcessSink = new InProcessEventSink();
+
+const sinks = new Map<string, EventSink>([[inProcessSink.name, inProcessSink]]);
+
+export const registerEventSink = (sink: EventSink) => {
+  sinks.set(sink.name, sink);
+};
+
+export const unregisterEventSink = (name: string) => {
+  sinks.delete(name);
+};
+
+export const getEventSinks = () => Array.from(sinks.values());
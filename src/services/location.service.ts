@@ -0,0 +1,52 @@
+import { ClientSession, Types } from "mongoose";
+import Location from "../models/location.model";
+import { AppError } from "../utils/appError";
+import logger from "../utils/logger";
+
+const DEFAULT_LOCATION_CODE = process.env.DEFAULT_LOCATION_CODE || "MAIN";
+
+/**
+ * Resolve the location a stock change applies to. Falls back to the default
+ * location so clients that predate multi-location keep working.
+ */
+export const resolveLocationId = async (
+  locationId: Types.ObjectId | string | undefined,
+  session?: ClientSession
+): Promise<Types.ObjectId> => {
+  if (locationId) {
+    if (!Types.ObjectId.isValid(locationId)) {
+      throw new AppError(`Invalid location ID: ${locationId}`, 400);
+    }
+    const location = await Location.findById(locationId)
+      .select("isActive")
+      .session(session || null);
+    if (!location) throw new AppError(`Location not found: ${locationId}`, 404);
+    if (!location.isActive) {
+      throw new AppError(`Location is inactive: ${locationId}`, 400);
+    }
+    return location._id;
+  }
+
+  const defaultLocation = await Location.findOne({ isDefault: true })
+    .select("_id")
+    .session(session || null);
+  if (!defaultLocation) {
+    throw new AppError("locationId is required (no default location)", 400);
+  }
+  return defaultLocation._id;
+};
+
+// Seed a default location on first boot so legacy stock has somewhere to live
+export const ensureDefaultLocation = async () => {
+  const existing = await Location.findOne({ isDefault: true });
+  if (existing) return existing;
+
+  const location = await Location.create({
+    code: DEFAULT_LOCATION_CODE,
+    name: "Main warehouse",
+    type: "warehouse",
+    isDefault: true,
+  });
+  logger.info(`Created default location ${location.code}`);
+  return location;
+};
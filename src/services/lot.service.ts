@@ -0,0 +1,299 @@
+import { ClientSession, Types } from "mongoose";
+import Lot from "../models/lot.model";
+import Variant from "../models/variant.model";
+import { ILotAllocation, ILotDocument } from "../schema/lot.schema";
+import { AppError } from "../utils/appError";
+
+// Lot details given with an increment (restock, PO receipt, return)
+export interface NewLot {
+  batchCode: string;
+  manufacturedAt?: Date;
+  expiresAt?: Date;
+}
+
+// In-memory view of one lot while a stock batch is being applied
+export interface LotState {
+  _id: Types.ObjectId;
+  batchCode: string;
+  expiresAt?: Date;
+  manufacturedAt?: Date;
+  status: ILotDocument["status"];
+  quantity: number;
+  initialQuantity: number;
+  received: number; // added by this batch
+  created?: NewLot; // not in the database yet
+}
+
+const toLotState = (lot: ILotDocument): LotState => ({
+  _id: lot._id,
+  batchCode: lot.batchCode,
+  expiresAt: lot.expiresAt,
+  manufacturedAt: lot.manufacturedAt,
+  status: lot.status,
+  quantity: lot.quantity,
+  initialQuantity: lot.quantity,
+  received: 0,
+});
+
+// first expired, first out; undated lots go last, then oldest batch first
+export const compareFefo = (a: LotState, b: LotState) => {
+  const aExpiry = a.expiresAt ? a.expiresAt.getTime() : Infinity;
+  const bExpiry = b.expiresAt ? b.expiresAt.getTime() : Infinity;
+  if (aExpiry !== bExpiry) return aExpiry - bExpiry;
+
+  const aMade = a.manufacturedAt ? a.manufacturedAt.getTime() : Infinity;
+  const bMade = b.manufacturedAt ? b.manufacturedAt.getTime() : Infinity;
+  if (aMade !== bMade) return aMade - bMade;
+
+  return a._id.toString().localeCompare(b._id.toString());
+};
+
+/**
+ * Lots of the given variants that a stock batch may touch: everything still
+ * holding stock, plus lots named by id or batch code (a return can refill a
+ * depleted lot).
+ */
+export const loadLotStates = async (
+  variantIds: string[],
+  named: { lotIds: string[]; batchCodes: string[] },
+  session: ClientSession
+) => {
+  const lots = await Lot.find({
+    variantId: { $in: variantIds },
+    $or: [
+      { status: { $ne: "depleted" } },
+      { _id: { $in: named.lotIds } },
+      { batchCode: { $in: named.batchCodes } },
+    ],
+  }).session(session);
+
+  const byVariant = new Map<string, LotState[]>(
+    variantIds.map((id) => [id, []])
+  );
+  for (const lot of lots) {
+    byVariant.get(lot.variantId.toString())!.push(toLotState(lot));
+  }
+  return byVariant;
+};
+
+const allocation = (lot: LotState, quantity: number): ILotAllocation => ({
+  lotId: lot._id,
+  batchCode: lot.batchCode,
+  quantity,
+});
+
+/**
+ * Take `quantity` out of a variant's lots. A named lot is used as-is (this is
+ * how quarantined stock is written off); otherwise available lots are drained
+ * FEFO and anything left comes from untracked stock (not in any lot). Mutates
+ * the lot states.
+ */
+export const allocateLotDecrement = (
+  lots: LotState[],
+  quantity: number,
+  untracked: number,
+  variantId: Types.ObjectId,
+  lotId?: string
+) => {
+  const allocations: ILotAllocation[] = [];
+
+  if (lotId) {
+    const lot = lots.find((l) => l._id.toString() === lotId);
+    if (!lot) throw new AppError(`Lot not found for variant: ${lotId}`, 404);
+    if (lot.quantity < quantity) {
+      throw new AppError(`Not enough stock in lot ${lot.batchCode}`, 400);
+    }
+    lot.quantity -= quantity;
+    allocations.push(allocation(lot, -quantity));
+    return allocations;
+  }
+
+  let remaining = quantity;
+  const candidates = lots
+    .filter((l) => l.status === "available" && l.quantity > 0)
+    .sort(compareFefo);
+
+  for (const lot of candidates) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    lot.quantity -= take;
+    allocations.push(allocation(lot, -take));
+    remaining -= take;
+  }
+
+  if (remaining > untracked) {
+    throw new AppError(
+      `Not enough unquarantined stock for variant: ${variantId}`,
+      400
+    );
+  }
+  return allocations;
+};
+
+/**
+ * Book an increment into a lot: a named lot, an existing lot with the same
+ * batch code, or a new lot. Without lot details the units stay untracked.
+ */
+export const allocateLotIncrement = (
+  lots: LotState[],
+  quantity: number,
+  lotId?: string,
+  newLot?: NewLot
+) => {
+  let lot: LotState | undefined;
+
+  if (lotId) {
+    lot = lots.find((l) => l._id.toString() === lotId);
+    if (!lot) throw new AppError(`Lot not found for variant: ${lotId}`, 404);
+  } else if (newLot) {
+    lot = lots.find((l) => l.batchCode === newLot.batchCode);
+    if (!lot) {
+      lot = {
+        _id: new Types.ObjectId(),
+        batchCode: newLot.batchCode,
+        expiresAt: newLot.expiresAt,
+        manufacturedAt: newLot.manufacturedAt,
+        status: "available",
+        quantity: 0,
+        initialQuantity: 0,
+        received: 0,
+        created: newLot,
+      };
+      lots.push(lot);
+    }
+  }
+  if (!lot) return [];
+
+  lot.quantity += quantity;
+  lot.received += quantity;
+  return [allocation(lot, quantity)];
+};
+
+export const lotTotal = (lots: LotState[]) =>
+  lots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+export const quarantinedTotal = (lots: LotState[]) =>
+  lots
+    .filter((lot) => lot.status === "quarantined")
+    .reduce((sum, lot) => sum + lot.quantity, 0);
+
+/**
+ * Persist lot states changed by a batch. Decrements are guarded like
+ * inventory levels, so a lot drained or quarantined concurrently fails the
+ * batch; lots that reach zero become depleted and refilled ones available.
+ * Returns false if a guard did not match.
+ */
+export const writeLotStates = async (
+  lotsByVariant: Map<string, LotState[]>,
+  actor: { userId?: Types.ObjectId | string } | undefined,
+  session: ClientSession
+) => {
+  const inserts = [];
+  const updates = [];
+
+  for (const [variantId, lots] of lotsByVariant) {
+    for (const lot of lots) {
+      if (lot.created) {
+        inserts.push({
+          _id: lot._id,
+          variantId,
+          ...lot.created,
+          quantity: lot.quantity,
+          receivedQuantity: lot.received,
+          status: lot.quantity > 0 ? "available" : "depleted",
+          createdBy: actor?.userId,
+        });
+        continue;
+      }
+
+      const delta = lot.quantity - lot.initialQuantity;
+      if (delta === 0 && lot.received === 0) continue;
+
+      const filter: any = { _id: lot._id, status: lot.status };
+      if (delta < 0) filter.quantity = { $gte: -delta };
+      updates.push({
+        updateOne: {
+          filter,
+          update: { $inc: { quantity: delta, receivedQuantity: lot.received } },
+        },
+      });
+    }
+  }
+
+  if (inserts.length) await Lot.insertMany(inserts, { session });
+  if (!updates.length) return true;
+
+  const result = await Lot.bulkWrite(updates, { session });
+  if (result.matchedCount !== updates.length) return false;
+
+  const touched = updates.map((u) => u.updateOne.filter._id);
+  await Lot.updateMany(
+    { _id: { $in: touched }, quantity: 0, status: { $ne: "depleted" } },
+    { $set: { status: "depleted" } },
+    { session }
+  );
+  await Lot.updateMany(
+    { _id: { $in: touched }, quantity: { $gt: 0 }, status: "depleted" },
+    { $set: { status: "available" } },
+    { session }
+  );
+  return true;
+};
+
+/**
+ * Quarantine a lot: its quantity stays on hand but stops counting toward
+ * available stock and is skipped by FEFO picking.
+ */
+export const quarantineLot = async (
+  lotId: string,
+  reason: string | undefined,
+  session: ClientSession
+) => {
+  const lot = await Lot.findOneAndUpdate(
+    { _id: lotId, status: "available" },
+    {
+      $set: {
+        status: "quarantined",
+        quarantinedAt: new Date(),
+        quarantineReason: reason,
+      },
+    },
+    { new: true, session }
+  );
+  if (!lot) {
+    const exists = await Lot.exists({ _id: lotId }).session(session);
+    if (!exists) throw new AppError("Lot not found", 404);
+    throw new AppError("Only available lots can be quarantined", 409);
+  }
+
+  await Variant.updateOne(
+    { _id: lot.variantId },
+    { $inc: { quarantined: lot.quantity } },
+    { session }
+  );
+  return lot;
+};
+
+// Release a quarantined lot back into available stock
+export const releaseLot = async (lotId: string, session: ClientSession) => {
+  const lot = await Lot.findOneAndUpdate(
+    { _id: lotId, status: "quarantined" },
+    {
+      $set: { status: "available" },
+      $unset: { quarantinedAt: 1, quarantineReason: 1 },
+    },
+    { new: true, session }
+  );
+  if (!lot) {
+    const exists = await Lot.exists({ _id: lotId }).session(session);
+    if (!exists) throw new AppError("Lot not found", 404);
+    throw new AppError("Lot is not quarantined", 409);
+  }
+
+  await Variant.updateOne(
+    { _id: lot.variantId },
+    { $inc: { quarantined: -lot.quantity } },
+    { session }
+  );
+  return lot;
+};
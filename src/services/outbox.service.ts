@@ -0,0 +1,127 @@
+import { ClientSession, Types } from "mongoose";
+import { v4 as uuidv4 } from "uuid";
+import OutboxEvent from "../models/outboxEvent.model";
+import {
+  DomainEvent,
+  DomainEventType,
+  IOutboxEventDocument,
+} from "../schema/outboxEvent.schema";
+import { getEventSinks } from "./eventSink.service";
+import logger from "../utils/logger";
+
+const MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS) || 10;
+const RETRY_BASE_DELAY_MS = Number(process.env.OUTBOX_RETRY_DELAY_MS) || 1000;
+// a claimed event is retried after this if its dispatcher died mid-delivery
+const LEASE_MS = Number(process.env.OUTBOX_LEASE_MS) || 60 * 1000;
+
+export interface NewDomainEvent {
+  type: DomainEventType;
+  aggregateId: Types.ObjectId | string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Write events to the outbox. Pass the session of the change they describe
+ * so both commit (or roll back) together.
+ */
+export const enqueueEvents = async (
+  events: NewDomainEvent[],
+  session?: ClientSession
+) => {
+  if (!events.length) return [];
+
+  const now = new Date();
+  return OutboxEvent.insertMany(
+    events.map((event) => ({
+      eventId: uuidv4(),
+      type: event.type,
+      aggregateId: event.aggregateId,
+      data: event.data,
+      occurredAt: now,
+      availableAt: now,
+    })),
+    { session }
+  );
+};
+
+const toDomainEvent = (event: IOutboxEventDocument): DomainEvent => ({
+  eventId: event.eventId,
+  type: event.type,
+  aggregateId: event.aggregateId.toString(),
+  occurredAt: event.occurredAt,
+  data: event.data,
+});
+
+// Deliver one claimed event to every sink that has not acknowledged it yet
+const deliver = async (event: IOutboxEventDocument) => {
+  const pending = getEventSinks().filter(
+    (sink) => !event.deliveredTo.includes(sink.name)
+  );
+
+  const errors: string[] = [];
+  for (const sink of pending) {
+    try {
+      await sink.publish(toDomainEvent(event));
+      await OutboxEvent.updateOne(
+        { _id: event._id },
+        { $addToSet: { deliveredTo: sink.name } }
+      );
+    } catch (error: any) {
+      errors.push(`${sink.name}: ${error.message}`);
+    }
+  }
+
+  if (!errors.length) {
+    await OutboxEvent.updateOne(
+      { _id: event._id },
+      { $set: { status: "dispatched", dispatchedAt: new Date() } }
+    );
+    return true;
+  }
+
+  const attempts = event.attempts + 1;
+  const failed = attempts >= MAX_ATTEMPTS;
+  await OutboxEvent.updateOne(
+    { _id: event._id },
+    {
+      $set: {
+        attempts,
+        lastError: errors.join("; "),
+        status: failed ? "failed" : "pending",
+        availableAt: new Date(
+          Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)
+        ),
+      },
+    }
+  );
+  if (failed) {
+    logger.error(
+      `Outbox event ${event.eventId} (${event.type}) failed after ${attempts} attempts: ${errors.join("; ")}`
+    );
+  }
+  return false;
+};
+
+/**
+ * One dispatcher pass. Each due event is claimed by pushing its availableAt
+ * out by a lease, so several instances never deliver the same event at the
+ * same time, and an event whose dispatcher crashed is picked up again.
+ */
+export const dispatchOutboxEvents = async (batchSize = 100) => {
+  const summary = { dispatched: 0, failed: 0 };
+
+  for (let i = 0; i < batchSize; i++) {
+    const now = new Date();
+    const event = await OutboxEvent.findOneAndUpdate(
+      { status: "pending", availableAt: { $lte: now } },
+      { $set: { availableAt: new Date(now.getTime() + LEASE_MS) } },
+      { sort: { occurredAt: 1, _id: 1 }, new: true }
+    );
+    if (!event) break;
+
+    if (await deliver(event)) summary.dispatched++;
+    else summary.failed++;
+  }
+
+  return summary;
+};
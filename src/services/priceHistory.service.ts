@@ -0,0 +1,146 @@
+import { ClientSession, Types } from "mongoose";
+import PriceHistory from "../models/priceHistory.model";
+import {
+  IPriceHistoryDocument,
+  PriceChangeSource,
+  PriceState,
+} from "../schema/priceHistory.schema";
+import { BASE_CURRENCY } from "../configs/currency.config";
+import { StockActor } from "./stock.service";
+import { enqueueEvents, NewDomainEvent } from "./outbox.service";
+
+const PRICE_FIELDS: (keyof PriceState)[] = [
+  "price",
+  "discountPercent",
+  "discountPrice",
+];
+
+export interface PriceChange {
+  variantId: Types.ObjectId | string;
+  before?: PriceState; // defaults to the latest recorded version
+  after: PriceState;
+}
+
+export interface PriceChangeContext {
+  source: PriceChangeSource;
+  referenceId?: string;
+  actor?: StockActor;
+  // false for changes not visible yet (pending bulk discount operations)
+  emitEvents?: boolean;
+}
+
+export const priceStateOf = (variant: {
+  price: number;
+  discountPercent?: number;
+  discountPrice?: number;
+}): PriceState => ({
+  price: variant.price,
+  discountPercent: variant.discountPercent || 0,
+  discountPrice: variant.discountPrice || 0,
+});
+
+const latestVersions = async (
+  variantIds: Types.ObjectId[],
+  session?: ClientSession
+) => {
+  const rows = await PriceHistory.aggregate([
+    { $match: { variantId: { $in: variantIds } } },
+    { $sort: { version: -1 } },
+    { $group: { _id: "$variantId", latest: { $first: "$$ROOT" } } },
+  ]).session(session || null);
+
+  return new Map<string, IPriceHistoryDocument>(
+    rows.map((r) => [r._id.toString(), r.latest])
+  );
+};
+
+/**
+ * Append a price history version for every variant whose price,
+ * discountPercent or discountPrice actually changed, and queue the matching
+ * variant.price_changed / variant.discount_changed events. Call it with the
+ * state written, in the same session as the write when there is one.
+ */
+export const recordPriceChanges = async (
+  changes: PriceChange[],
+  context: PriceChangeContext,
+  session?: ClientSession
+) => {
+  if (!changes.length) return [];
+
+  const variantIds = changes.map((c) => new Types.ObjectId(c.variantId));
+  const latest = await latestVersions(variantIds, session);
+  const effectiveAt = new Date();
+
+  const entries = [];
+  for (const change of changes) {
+    const last = latest.get(change.variantId.toString());
+    const previous = change.before || (last && priceStateOf(last));
+
+    const changedFields = previous
+      ? PRICE_FIELDS.filter((field) => previous[field] !== change.after[field])
+      : PRICE_FIELDS;
+    if (!changedFields.length) continue;
+
+    entries.push({
+      variantId: change.variantId,
+      version: (last?.version || 0) + 1,
+      currency: BASE_CURRENCY,
+      ...change.after,
+      previous,
+      changedFields,
+      source: context.source,
+      referenceId: context.referenceId,
+      actor: context.actor,
+      effectiveAt,
+    });
+  }
+
+  if (!entries.length) return [];
+
+  if (context.emitEvents !== false) {
+    await enqueueEvents(priceEvents(entries, context.source), session);
+  }
+  return PriceHistory.insertMany(entries, { session });
+};
+
+// price_changed / discount_changed events for recorded versions
+export const priceEvents = (
+  entries: (PriceState & {
+    variantId: Types.ObjectId | string;
+    previous?: PriceState;
+    changedFields: (keyof PriceState)[];
+  })[],
+  source: PriceChangeSource
+) => {
+  const events: NewDomainEvent[] = [];
+
+  for (const entry of entries) {
+    // a first version is announced by variant.created
+    if (!entry.previous) continue;
+
+    const data = {
+      variantId: entry.variantId.toString(),
+      previous: entry.previous,
+      current: priceStateOf(entry),
+      source,
+    };
+    if (entry.changedFields.includes("price")) {
+      events.push({
+        type: "variant.price_changed",
+        aggregateId: entry.variantId,
+        data,
+      });
+    }
+    if (
+      entry.changedFields.includes("discountPercent") ||
+      entry.changedFields.includes("discountPrice")
+    ) {
+      events.push({
+        type: "variant.discount_changed",
+        aggregateId: entry.variantId,
+        data,
+      });
+    }
+  }
+  return events;
+};
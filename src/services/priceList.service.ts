@@ -0,0 +1,151 @@
+import { Types } from "mongoose";
+import PriceList from "../models/priceList.model";
+import VariantPrice from "../models/variantPrice.model";
+import { IPriceListDocument } from "../schema/priceList.schema";
+import { IVariantDocument } from "../schema/variant.schema";
+import { BASE_CURRENCY, CURRENCY_RATES } from "../configs/currency.config";
+import { AppError } from "../utils/appError";
+import { computeDiscountPrice, roundAmount } from "../utils/pricing";
+
+// price lists hold amounts in minor units of 2 decimals (EUR, GBP, ...)
+export const PRICE_LIST_DECIMALS = 2;
+
+// What a read endpoint was asked to price in
+export interface PriceSelection {
+  currency?: string;
+  priceList?: string; // code or id
+  region?: string;
+}
+
+export interface ResolvedPrice {
+  currency: string;
+  price: number;
+  discountPercent: number;
+  discountPrice: number;
+  // price_list = explicit price, converted = base price * rate
+  source: "price_list" | "converted" | "base";
+  priceList?: string;
+}
+
+/**
+ * Price list for a selection. An explicit priceList must exist and be
+ * active. For a currency alone, the list for the given region wins, then
+ * the currency's region-less list; with no match prices are converted.
+ */
+export const findPriceList = async (
+  selection: PriceSelection
+): Promise<IPriceListDocument | null> => {
+  if (selection.priceList) {
+    const key = selection.priceList;
+    const priceList = await PriceList.findOne(
+      Types.ObjectId.isValid(key)
+        ? { _id: key, isActive: true }
+        : { code: key.toUpperCase(), isActive: true }
+    );
+    if (!priceList) throw new AppError("Price list not found", 404);
+    return priceList;
+  }
+
+  if (!selection.currency) return null;
+
+  const lists = await PriceList.find({
+    currency: selection.currency,
+    isActive: true,
+  });
+  const region = selection.region?.toUpperCase();
+  return (
+    (region && lists.find((l) => l.region === region)) ||
+    lists.find((l) => !l.region) ||
+    null
+  );
+};
+
+const convertFromBase = (
+  variant: IVariantDocument,
+  currency: string
+): ResolvedPrice => {
+  const discountPercent = variant.discountPercent || 0;
+
+  if (currency === BASE_CURRENCY) {
+    return {
+      currency,
+      price: variant.price,
+      discountPercent,
+      discountPrice: variant.discountPrice || 0,
+      source: "base",
+    };
+  }
+
+  const rate = CURRENCY_RATES[currency];
+  if (!rate) {
+    throw new AppError(`No conversion rate configured for ${currency}`, 400);
+  }
+
+  const price = roundAmount(variant.price * rate, PRICE_LIST_DECIMALS);
+  return {
+    currency,
+    price,
+    discountPercent,
+    discountPrice: computeDiscountPrice(
+      price,
+      discountPercent,
+      PRICE_LIST_DECIMALS
+    ),
+    source: "converted",
+  };
+};
+
+/**
+ * Prices of variants for a currency / price list, keyed by variant id.
+ * Variants without a price on the list fall back to their base price,
+ * converted with the configured rate table. Undefined when nothing was
+ * requested, so reads stay in the base currency.
+ */
+export const resolveVariantPrices = async (
+  variants: IVariantDocument[],
+  selection: PriceSelection
+): Promise<Map<string, ResolvedPrice> | undefined> => {
+  if (!selection.currency && !selection.priceList) return undefined;
+
+  const priceList = await findPriceList(selection);
+  if (
+    priceList &&
+    selection.currency &&
+    priceList.currency !== selection.currency
+  ) {
+    throw new AppError(
+      `Price list ${priceList.code} is in ${priceList.currency}, not ${selection.currency}`,
+      400
+    );
+  }
+  const currency = priceList?.currency || selection.currency!;
+
+  const entries = priceList
+    ? await VariantPrice.find({
+        priceListId: priceList._id,
+        variantId: { $in: variants.map((v) => v._id) },
+      })
+    : [];
+  const entryByVariant = new Map(
+    entries.map((e) => [e.variantId.toString(), e])
+  );
+
+  const prices = new Map<string, ResolvedPrice>();
+  for (const variant of variants) {
+    const entry = entryByVariant.get(variant._id.toString());
+    prices.set(
+      variant._id.toString(),
+      entry
+        ? {
+            currency,
+            price: entry.price,
+            discountPercent: entry.discountPercent,
+            discountPrice: entry.discountPrice,
+            source: "price_list",
+            priceList: priceList!.code,
+          }
+        : { ...convertFromBase(variant, currency), priceList: priceList?.code }
+    );
+  }
+  return prices;
+};
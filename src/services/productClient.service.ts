@@ -0,0 +1,208 @@
+import axios from "axios";
+import { AppError } from "../utils/appError";
+import logger from "../utils/logger";
+
+export interface Product {
+  _id: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface ProductClientOptions {
+  baseURL: string;
+  timeoutMs: number;
+  retries: number; // extra attempts after the first one
+  retryDelayMs: number; // base delay, doubled on every retry
+  breakerThreshold: number; // consecutive failures before opening
+  breakerResetMs: number; // how long the breaker stays open
+  cacheTtlMs: number;
+  cacheMaxEntries: number; // oldest entries are evicted past this
+}
+
+type BreakerState = "closed" | "open" | "half_open";
+
+interface CacheEntry {
+  product: Product | null; // null = upstream said 404
+  expiresAt: number;
+}
+
+const envOptions = (): ProductClientOptions => ({
+  baseURL: process.env.PRODUCT_SERVICE_URL || "",
+  timeoutMs: Number(process.env.PRODUCT_SERVICE_TIMEOUT_MS) || 2000,
+  retries: Number(process.env.PRODUCT_SERVICE_RETRIES ?? 2),
+  retryDelayMs: Number(process.env.PRODUCT_SERVICE_RETRY_DELAY_MS) || 200,
+  breakerThreshold: Number(process.env.PRODUCT_SERVICE_BREAKER_THRESHOLD) || 5,
+  breakerResetMs: Number(process.env.PRODUCT_SERVICE_BREAKER_RESET_MS) || 30 * 1000,
+  cacheTtlMs: Number(process.env.PRODUCT_CACHE_TTL_MS ?? 30 * 1000),
+  cacheMaxEntries: Number(process.env.PRODUCT_CACHE_MAX_ENTRIES) || 1000,
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// network errors, timeouts, 5xx and 429 are worth another attempt
+const isRetryable = (error: any) =>
+  !error.response ||
+  error.response.status >= 500 ||
+  error.response.status === 429;
+
+/**
+ * Client for product-service lookups. Requests time out, transient failures
+ * are retried with exponential backoff, and after `breakerThreshold`
+ * consecutive failures the circuit opens and calls fail fast with 503 until
+ * `breakerResetMs` has passed; then a single trial call decides whether it
+ * closes again, other calls keep failing fast while it runs. Existence
+ * (including 404s) is cached for `cacheTtlMs`, up to `cacheMaxEntries`.
+ */
+export class ProductServiceClient {
+  private readonly http: ReturnType<typeof axios.create>;
+  private readonly options: ProductClientOptions;
+  private readonly cache = new Map<string, CacheEntry>();
+
+  private state: BreakerState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(options: Partial<ProductClientOptions> = {}) {
+    this.options = { ...envOptions(), ...options };
+    this.http = axios.create({
+      baseURL: this.options.baseURL,
+      timeout: this.options.timeoutMs,
+    });
+  }
+
+  // Fetch a product, throwing AppError 404 if it does not exist
+  async getProduct(productId: string): Promise<Product> {
+    const cached = this.cache.get(productId);
+    if (cached && cached.expiresAt > Date.now()) {
+      if (!cached.product) throw new AppError("Product not found", 404);
+      return cached.product;
+    }
+    if (cached) this.cache.delete(productId);
+
+    const product = await this.request(productId);
+    if (this.options.cacheTtlMs > 0) this.cacheProduct(productId, product);
+
+    if (!product) throw new AppError("Product not found", 404);
+    return product;
+  }
+
+  async assertProductExists(productId: string) {
+    await this.getProduct(productId);
+  }
+
+  clearCache() {
+    this.cache.clear();
+  }
+
+  get breakerState(): BreakerState {
+    return this.state;
+  }
+
+  // Map keeps insertion order, so the first key is the oldest entry
+  private cacheProduct(productId: string, product: Product | null) {
+    this.cache.delete(productId);
+    this.cache.set(productId, {
+      product,
+      expiresAt: Date.now() + this.options.cacheTtlMs,
+    });
+    while (this.cache.size > this.options.cacheMaxEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  // Resolves to null for an upstream 404 (or empty body)
+  private async request(productId: string): Promise<Product | null> {
+    const trial = this.checkBreaker();
+    try {
+      return await this.attempt(productId);
+    } finally {
+      if (trial) this.trialInFlight = false;
+    }
+  }
+
+  private async attempt(productId: string): Promise<Product | null> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.http.get(
+          `/api/products/${encodeURIComponent(productId)}`
+        );
+        this.onSuccess();
+        return (response.data as Product) || null;
+      } catch (error: any) {
+        if (!error?.isAxiosError) throw error;
+
+        if (error.response?.status === 404) {
+          this.onSuccess(); // upstream answered, it is healthy
+          return null;
+        }
+
+        if (!isRetryable(error)) {
+          this.onSuccess();
+          logger.error(
+            `Product service rejected ${productId}: ${error.response?.status}`
+          );
+          throw new AppError("Product service rejected the request", 502);
+        }
+
+        // a half-open trial gets exactly one attempt
+        if (attempt >= this.options.retries || this.state === "half_open") {
+          this.onFailure();
+          logger.error(
+            `Product service unavailable after ${attempt + 1} attempt(s): ${error.message}`
+          );
+          throw new AppError("Product service unavailable", 503);
+        }
+
+        await sleep(this.options.retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  // Returns true when this call is the half-open trial
+  private checkBreaker() {
+    if (this.state === "closed") return false;
+
+    if (
+      this.trialInFlight ||
+      (this.state === "open" &&
+        Date.now() - this.openedAt < this.options.breakerResetMs)
+    ) {
+      throw new AppError("Product service unavailable", 503);
+    }
+    this.state = "half_open";
+    this.trialInFlight = true;
+    return true;
+  }
+
+  private onSuccess() {
+    if (this.state !== "closed") logger.info("Product service circuit closed");
+    this.state = "closed";
+    this.failures = 0;
+  }
+
+  private onFailure() {
+    this.failures++;
+    if (
+      this.state === "half_open" ||
+      this.failures >= this.options.breakerThreshold
+    ) {
+      if (this.state !== "open") logger.warn("Product service circuit opened");
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+let client: ProductServiceClient | undefined;
+
+// Shared client, built from env on first use
+export const getProductClient = () => {
+  if (!client) client = new ProductServiceClient();
+  return client;
+};
+
+// Swap the shared client, e.g. to point tests at a local fake server
+export const setProductClient = (next?: ProductServiceClient) => {
+  client = next;
+};
@@ -0,0 +1,146 @@
+import { ClientSession, Types } from "mongoose";
+import PurchaseOrder from "../models/purchaseOrder.model";
+import {
+  IPurchaseOrderDocument,
+  OPEN_PURCHASE_ORDER_STATUSES,
+} from "../schema/purchaseOrder.schema";
+import { AppError } from "../utils/appError";
+import { applyStockChanges, StockActor } from "./stock.service";
+import { NewLot } from "./lot.service";
+
+// Quantity still expected from open POs, per variant
+export const getIncomingByVariant = async (
+  variantIds: Types.ObjectId[]
+): Promise<Map<string, number>> => {
+  if (!variantIds.length) return new Map();
+
+  const rows = await PurchaseOrder.aggregate([
+    {
+      $match: {
+        status: { $in: OPEN_PURCHASE_ORDER_STATUSES },
+        "lines.variantId": { $in: variantIds },
+      },
+    },
+    { $unwind: "$lines" },
+    { $match: { "lines.variantId": { $in: variantIds } } },
+    {
+      $group: {
+        _id: "$lines.variantId",
+        incoming: {
+          $sum: {
+            $max: [
+              { $subtract: ["$lines.orderedQuantity", "$lines.receivedQuantity"] },
+              0,
+            ],
+          },
+        },
+      },
+    },
+  ]);
+
+  return new Map(rows.map((r) => [r._id.toString(), r.incoming]));
+};
+
+// Lines whose received quantity differs from what was ordered
+export const receiptDiscrepancies = (po: IPurchaseOrderDocument) =>
+  po.lines
+    .filter((line) => line.flag)
+    .map((line) => ({
+      variantId: line.variantId,
+      orderedQuantity: line.orderedQuantity,
+      receivedQuantity: line.receivedQuantity,
+      difference: line.receivedQuantity - line.orderedQuantity,
+      flag: line.flag,
+    }));
+
+/**
+ * Book received goods against a sent PO: stock goes up through the ledger
+ * (reason "restock", referenceId = PO number), lines that now exceed the
+ * ordered quantity are flagged "over", and the PO moves to
+ * partially_received or received.
+ */
+export const receivePurchaseOrder = async (
+  po: IPurchaseOrderDocument,
+  items: { variantId: string; quantity: number; lot?: NewLot }[],
+  options: { locationId?: string; note?: string; actor?: StockActor },
+  session: ClientSession
+) => {
+  if (!["sent", "partially_received"].includes(po.status)) {
+    throw new AppError(`Cannot receive a ${po.status} purchase order`, 409);
+  }
+
+  const quantities = new Map<string, number>();
+  for (const { variantId, quantity } of items) {
+    quantities.set(variantId, (quantities.get(variantId) || 0) + quantity);
+  }
+
+  const lineByVariant = new Map(
+    po.lines.map((line) => [line.variantId.toString(), line])
+  );
+  for (const variantId of quantities.keys()) {
+    if (!lineByVariant.has(variantId)) {
+      throw new AppError(
+        `Variant ${variantId} is not on purchase order ${po.poNumber}`,
+        400
+      );
+    }
+  }
+
+  // one ledger line per received item, so each batch gets its own lot
+  await applyStockChanges(
+    items.map(({ variantId, quantity, lot }) => ({
+      variantId,
+      delta: quantity,
+      reason: "restock" as const,
+      referenceId: po.poNumber,
+      locationId: options.locationId,
+      lot,
+    })),
+    options.actor,
+    session
+  );
+
+  for (const [variantId, quantity] of quantities) {
+    const line = lineByVariant.get(variantId)!;
+    line.receivedQuantity += quantity;
+    line.flag =
+      line.receivedQuantity > line.orderedQuantity ? "over" : undefined;
+  }
+
+  const receipt = {
+    receivedAt: new Date(),
+    receivedBy: options.actor?.userId as Types.ObjectId | undefined,
+    locationId: options.locationId
+      ? new Types.ObjectId(options.locationId)
+      : undefined,
+    note: options.note,
+    items: Array.from(quantities.entries()).map(([variantId, quantity]) => ({
+      variantId: new Types.ObjectId(variantId),
+      quantity,
+    })),
+  };
+  po.receipts.push(receipt);
+
+  const complete = po.lines.every(
+    (line) => line.receivedQuantity >= line.orderedQuantity
+  );
+  po.status = complete ? "received" : "partially_received";
+
+  await po.save({ session });
+  return receipt;
+};
+
+// Close a PO; lines still short are flagged "under"
+export const closePurchaseOrder = async (po: IPurchaseOrderDocument) => {
+  if (!["sent", "partially_received", "received"].includes(po.status)) {
+    throw new AppError(`Cannot close a ${po.status} purchase order`, 409);
+  }
+
+  for (const line of po.lines) {
+    if (line.receivedQuantity < line.orderedQuantity) line.flag = "under";
+  }
+  po.status = "closed";
+  po.closedAt = new Date();
+
+  await po.save();
+};
@@ -0,0 +1,123 @@
+import { ClientSession, startSession, Types } from "mongoose";
+import Reservation from "../models/reservation.model";
+import Variant from "../models/variant.model";
+import {
+  IReservationDocument,
+  IReservationItem,
+  ReservationStatus,
+} from "../schema/reservation.schema";
+import { AppError } from "../utils/appError";
+import logger from "../utils/logger";
+import { availableExpr } from "./stock.service";
+
+export const DEFAULT_RESERVATION_TTL_SECONDS =
+  Number(process.env.RESERVATION_TTL_SECONDS) || 15 * 60;
+export const MAX_RESERVATION_TTL_SECONDS =
+  Number(process.env.RESERVATION_MAX_TTL_SECONDS) || 60 * 60;
+
+// Merge duplicate variant lines so each variant is reserved once
+export const mergeReservationItems = (
+  items: { variantId: string; quantity: number }[]
+): IReservationItem[] => {
+  const merged = new Map<string, number>();
+  for (const { variantId, quantity } of items) {
+    merged.set(variantId, (merged.get(variantId) || 0) + quantity);
+  }
+  return Array.from(merged.entries()).map(([variantId, quantity]) => ({
+    variantId: new Types.ObjectId(variantId),
+    quantity,
+  }));
+};
+
+/**
+ * Hold stock for every line. A line only succeeds if on-hand minus already
+ * reserved covers it, so two checkouts can never hold the same last unit.
+ * Must run inside a transaction so a failing line undoes the earlier ones.
+ */
+export const holdStock = async (
+  items: IReservationItem[],
+  session: ClientSession
+) => {
+  for (const { variantId, quantity } of items) {
+    const result = await Variant.updateOne(
+      {
+        _id: variantId,
+        isActive: true,
+        $expr: { $gte: [availableExpr, quantity] },
+      },
+      { $inc: { reserved: quantity } },
+      { session }
+    );
+
+    if (result.matchedCount === 0) {
+      throw new AppError(`Insufficient stock for variant: ${variantId}`, 409);
+    }
+  }
+};
+
+/**
+ * Give the held quantities back and move the reservation to a final status
+ * (released or expired).
+ */
+export const releaseReservation = async (
+  reservation: IReservationDocument,
+  status: Extract<ReservationStatus, "released" | "expired">,
+  session: ClientSession
+) => {
+  const bulkOps = reservation.items.map((item) => ({
+    updateOne: {
+      filter: { _id: item.variantId },
+      update: { $inc: { reserved: -item.quantity } },
+    },
+  }));
+
+  if (bulkOps.length) {
+    await Variant.bulkWrite(bulkOps, { session });
+  }
+
+  reservation.status = status;
+  reservation.releasedAt = new Date();
+  await reservation.save({ session });
+};
+
+/**
+ * Release every active reservation past its expiry. Each one runs in its own
+ * transaction so a single failure does not block the rest of the sweep.
+ */
+export const expireReservations = async (batchSize = 100) => {
+  const expired = await Reservation.find({
+    status: "active",
+    expiresAt: { $lte: new Date() },
+  })
+    .select("_id")
+    .limit(batchSize);
+
+  let count = 0;
+
+  for (const { _id } of expired) {
+    const session = await startSession();
+    session.startTransaction();
+
+    try {
+      // re-read inside the transaction, it may have been confirmed meanwhile
+      const reservation = await Reservation.findOne({
+        _id,
+        status: "active",
+      }).session(session);
+
+      if (reservation) {
+        await releaseReservation(reservation, "expired", session);
+        count++;
+      }
+
+      await session.commitTransaction();
+    } catch (error: any) {
+      await session.abortTransaction();
+      logger.error(`Failed to expire reservation ${_id}: ${error.message}`);
+    } finally {
+      session.endSession();
+    }
+  }
+
+  return count;
+};
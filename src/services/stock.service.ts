@@ -0,0 +1,731 @@
+import { ClientSession, Types } from "mongoose";
+import Variant from "../models/variant.model";
+import InventoryLevel from "../models/inventoryLevel.model";
+import Location from "../models/location.model";
+import StockMovement from "../models/stockMovement.model";
+import { StockMovementReason } from "../schema/stockMovement.schema";
+import {
+  IBundleComponent,
+  IVariantDocument,
+} from "../schema/variant.schema";
+import { AppError } from "../utils/appError";
+import { resolveLocationId } from "./location.service";
+import { evaluateStockThreshold } from "./stockAlert.service";
+import { enqueueEvents } from "./outbox.service";
+import {
+  allocateLotDecrement,
+  allocateLotIncrement,
+  loadLotStates,
+  LotState,
+  lotTotal,
+  NewLot,
+  quarantinedTotal,
+  writeLotStates,
+} from "./lot.service";
+import { ILotAllocation } from "../schema/lot.schema";
+
+export interface StockActor {
+  userId?: Types.ObjectId | string;
+  role?: string;
+}
+
+interface StockChangeBase {
+  variantId: Types.ObjectId | string;
+  reason: StockMovementReason;
+  referenceId?: string;
+  locationId?: Types.ObjectId | string; // default location when omitted (increments / set)
+  releaseReserved?: number; // held quantity consumed by this change (reservation confirm)
+  lotId?: Types.ObjectId | string; // take from / add to this lot instead of FEFO
+  lot?: NewLot; // increments: book into this batch (created if new)
+  expectedVersion?: VariantVersion; // If-Match: the variant as the client saw it
+}
+
+export interface VariantVersion {
+  __v?: number;
+  updatedAt?: Date;
+}
+
+// Either a signed delta, or an absolute count for one location (stock take style)
+export type StockChange = StockChangeBase &
+  ({ delta: number; setTo?: undefined } | { setTo: number; delta?: undefined });
+
+export interface StockChangeResult {
+  variantId: Types.ObjectId;
+  delta: number;
+  before: number; // aggregate stock before this line
+  after: number; // aggregate stock after this line
+  lots: ILotAllocation[]; // lots the line took from or added to
+}
+
+export interface StockMovementEntry {
+  variantId: Types.ObjectId | string;
+  delta: number;
+  balance: number;
+  reason: StockMovementReason;
+  referenceId?: string;
+  locationId?: Types.ObjectId;
+  locationBalance?: number;
+  lots?: ILotAllocation[];
+}
+
+// In-memory view of one variant while a batch is being applied
+interface VariantState {
+  variant: IVariantDocument;
+  stock: number;
+  reserved: number;
+  quarantined: number;
+  levels: Map<string, number>; // locationId => stock
+  initialLevels: Map<string, number>;
+  lots: LotState[];
+}
+
+const STALE_VARIANT_MESSAGE =
+  "Variant was modified by someone else, reload and try again";
+
+// req.user => ledger actor
+export const toStockActor = (user?: any): StockActor | undefined =>
+  user ? { userId: user.userId, role: user.role } : undefined;
+
+// bundles are stocked through their components only
+const assertNotBundle = (variant: IVariantDocument) => {
+  if (variant.kind === "bundle") {
+    throw new AppError(
+      `Bundle stock is derived from its components: ${variant._id}`,
+      400
+    );
+  }
+};
+
+/**
+ * Complete sets the components make up, given a quantity (stock or
+ * available) per component variant.
+ */
+export const bundleQuantity = (
+  components: IBundleComponent[],
+  quantities: Map<string, number>
+) =>
+  components.length
+    ? Math.min(
+        ...components.map(({ variantId, quantity }) =>
+          Math.floor(
+            Math.max(quantities.get(variantId.toString()) || 0, 0) / quantity
+          )
+        )
+      )
+    : 0;
+
+/**
+ * Keep the stored stock of bundles containing any of the given variants in
+ * line with their components, so listing filters and sorts see it. Available
+ * quantity is worked out at read time (presentVariants).
+ */
+export const refreshBundleStock = async (
+  variantIds: (Types.ObjectId | string)[],
+  session?: ClientSession
+) => {
+  const bundles = await Variant.find({
+    kind: "bundle",
+    "components.variantId": { $in: variantIds },
+  })
+    .select("components stock")
+    .session(session || null);
+  if (!bundles.length) return;
+
+  const componentIds = new Set(
+    bundles.flatMap((b) => b.components!.map((c) => c.variantId.toString()))
+  );
+  const components = await Variant.find({ _id: { $in: [...componentIds] } })
+    .select("stock")
+    .session(session || null);
+  const stockById = new Map(components.map((c) => [c._id.toString(), c.stock]));
+
+  const bulkOps = bundles
+    .map((bundle) => ({
+      bundle,
+      stock: bundleQuantity(bundle.components!, stockById),
+    }))
+    .filter(({ bundle, stock }) => bundle.stock !== stock)
+    .map(({ bundle, stock }) => ({
+      updateOne: { filter: { _id: bundle._id }, update: { $set: { stock } } },
+    }));
+
+  if (bulkOps.length) {
+    await Variant.bulkWrite(bulkOps, { session });
+  }
+};
+
+// stock - reserved - quarantined, missing counters (older variants) count as 0
+export const availableExpr = {
+  $subtract: [
+    "$stock",
+    {
+      $add: [
+        { $ifNull: ["$reserved", 0] },
+        { $ifNull: ["$quarantined", 0] },
+      ],
+    },
+  ],
+};
+
+export const recordStockMovements = async (
+  entries: StockMovementEntry[],
+  actor: StockActor | undefined,
+  session: ClientSession
+) => {
+  const movements = entries.filter((entry) => entry.delta !== 0);
+  if (!movements.length) return [];
+
+  return StockMovement.insertMany(
+    movements.map((entry) => ({ ...entry, actor })),
+    { session }
+  );
+};
+
+/**
+ * Variants created before multi-location have stock but no levels. Their
+ * whole stock is placed at the default location the first time it moves.
+ */
+export const ensureInventoryLevels = async (
+  variantId: Types.ObjectId | string,
+  session: ClientSession
+) => {
+  const variant = await Variant.findById(variantId)
+    .select("stock kind")
+    .session(session);
+  if (!variant) throw new AppError(`Variant not found: ${variantId}`, 404);
+  assertNotBundle(variant);
+
+  const hasLevels = await InventoryLevel.exists({ variantId }).session(session);
+  if (!hasLevels && variant.stock > 0) {
+    await InventoryLevel.create(
+      [
+        {
+          variantId,
+          locationId: await resolveLocationId(undefined, session),
+          stock: variant.stock,
+        },
+      ],
+      { session }
+    );
+  }
+
+  return variant;
+};
+
+// Conditional $inc on one location; decrements never take a level below zero
+const adjustLevel = async (
+  variantId: Types.ObjectId | string,
+  locationId: Types.ObjectId,
+  delta: number,
+  session: ClientSession
+) => {
+  const filter: any = { variantId, locationId };
+  if (delta < 0) filter.stock = { $gte: -delta };
+
+  const level = await InventoryLevel.findOneAndUpdate(
+    filter,
+    { $inc: { stock: delta } },
+    { new: true, upsert: delta >= 0, session }
+  );
+
+  if (!level) {
+    throw new AppError(
+      `Not enough stock at location ${locationId} for variant: ${variantId}`,
+      400
+    );
+  }
+  return level;
+};
+
+/**
+ * Load everything a batch touches with one query per collection: variants,
+ * their levels, and the locations named by the lines. Legacy variants without
+ * levels get their stock seeded at the default location.
+ */
+const loadStockState = async (
+  changes: StockChange[],
+  session: ClientSession
+) => {
+  const variantIds = Array.from(
+    new Set(changes.map((c) => c.variantId.toString()))
+  );
+  for (const id of variantIds) {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError(`Invalid variant ID: ${id}`, 400);
+    }
+  }
+
+  const variants = await Variant.find({ _id: { $in: variantIds } }).session(
+    session
+  );
+  if (variants.length !== variantIds.length) {
+    const found = new Set(variants.map((v) => v._id.toString()));
+    const missing = variantIds.find((id) => !found.has(id));
+    throw new AppError(`Variant not found: ${missing}`, 404);
+  }
+  variants.forEach(assertNotBundle);
+
+  const locationIds = Array.from(
+    new Set(
+      changes.filter((c) => c.locationId).map((c) => c.locationId!.toString())
+    )
+  );
+  for (const id of locationIds) {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new AppError(`Invalid location ID: ${id}`, 400);
+    }
+  }
+  const locations = await Location.find({
+    $or: [{ _id: { $in: locationIds } }, { isDefault: true }],
+  }).session(session);
+
+  for (const id of locationIds) {
+    const location = locations.find((l) => l._id.toString() === id);
+    if (!location) throw new AppError(`Location not found: ${id}`, 404);
+    if (!location.isActive) {
+      throw new AppError(`Location is inactive: ${id}`, 400);
+    }
+  }
+  const defaultLocation = locations.find((l) => l.isDefault);
+
+  const levels = await InventoryLevel.find({
+    variantId: { $in: variantIds },
+  }).session(session);
+
+  const states = new Map<string, VariantState>();
+  for (const variant of variants) {
+    states.set(variant._id.toString(), {
+      variant,
+      stock: variant.stock,
+      reserved: variant.reserved || 0,
+      quarantined: variant.quarantined || 0,
+      levels: new Map(),
+      initialLevels: new Map(),
+      lots: [],
+    });
+  }
+
+  const lotsByVariant = await loadLotStates(
+    variantIds,
+    {
+      lotIds: changes
+        .filter((c) => c.lotId)
+        .map((c) => c.lotId!.toString())
+        .filter((id) => Types.ObjectId.isValid(id)),
+      batchCodes: changes.filter((c) => c.lot).map((c) => c.lot!.batchCode),
+    },
+    session
+  );
+  for (const [id, lots] of lotsByVariant) states.get(id)!.lots = lots;
+  for (const level of levels) {
+    const state = states.get(level.variantId.toString())!;
+    state.levels.set(level.locationId.toString(), level.stock);
+  }
+
+  const seeds = [];
+  for (const state of states.values()) {
+    if (!state.levels.size && state.stock > 0) {
+      if (!defaultLocation) {
+        throw new AppError("locationId is required (no default location)", 400);
+      }
+      state.levels.set(defaultLocation._id.toString(), state.stock);
+      seeds.push({
+        variantId: state.variant._id,
+        locationId: defaultLocation._id,
+        stock: state.stock,
+      });
+    }
+    state.initialLevels = new Map(state.levels);
+  }
+  if (seeds.length) {
+    await InventoryLevel.insertMany(seeds, { session });
+  }
+
+  return {
+    states,
+    lotsByVariant,
+    defaultLocationId: defaultLocation?._id.toString(),
+  };
+};
+
+/**
+ * Decide which locations a decrement is taken from. A named location is used
+ * as-is; otherwise the default location is drained first, then the locations
+ * holding the most stock.
+ */
+const allocateDecrement = (
+  state: VariantState,
+  quantity: number,
+  locationId: string | undefined,
+  defaultLocationId: string | undefined
+): [string, number][] => {
+  if (locationId) return [[locationId, -quantity]];
+
+  const candidates = Array.from(state.levels.entries())
+    .filter(([, stock]) => stock > 0)
+    .sort(([aId, aStock], [bId, bStock]) => {
+      if (aId === defaultLocationId) return -1;
+      if (bId === defaultLocationId) return 1;
+      return bStock - aStock;
+    });
+
+  const allocations: [string, number][] = [];
+  let remaining = quantity;
+
+  for (const [id, stock] of candidates) {
+    if (remaining <= 0) break;
+    const take = Math.min(stock, remaining);
+    allocations.push([id, -take]);
+    remaining -= take;
+  }
+
+  if (remaining > 0) {
+    throw new AppError(
+      `Not enough stock for variant: ${state.variant._id}`,
+      400
+    );
+  }
+  return allocations;
+};
+
+/**
+ * Apply a batch of stock changes all-or-nothing. Lines are validated in order
+ * against an in-memory copy of the current balances (so later lines see
+ * earlier ones), then written as guarded $inc bulk writes: a variant or level
+ * whose balance moved under us no longer matches its guard and the batch
+ * fails instead of going negative. Decrements never eat into stock held by
+ * reservations unless they consume that hold (releaseReserved).
+ *
+ * Must run inside a transaction. Cost is a handful of round trips regardless
+ * of batch size.
+ */
+export const applyStockChanges = async (
+  changes: StockChange[],
+  actor: StockActor | undefined,
+  session: ClientSession
+) => {
+  const { states, lotsByVariant, defaultLocationId } = await loadStockState(
+    changes,
+    session
+  );
+
+  // the variant must still be the one the client saw, up to the write itself
+  const expectedVersions = new Map<string, VariantVersion>();
+  for (const change of changes) {
+    if (!change.expectedVersion) continue;
+    const { variant } = states.get(change.variantId.toString())!;
+    const { __v, updatedAt } = change.expectedVersion;
+    if (
+      variant.get("__v") !== __v ||
+      variant.updatedAt?.getTime() !== updatedAt?.getTime()
+    ) {
+      throw new AppError(STALE_VARIANT_MESSAGE, 412);
+    }
+    expectedVersions.set(variant._id.toString(), {
+      ...(__v !== undefined && { __v }),
+      ...(updatedAt && { updatedAt }),
+    });
+  }
+
+  const results: StockChangeResult[] = [];
+  const movements: StockMovementEntry[] = [];
+  const initialStock = new Map<string, number>();
+  const initialReserved = new Map<string, number>();
+  const initialQuarantined = new Map<string, number>();
+
+  for (const [id, state] of states) {
+    initialStock.set(id, state.stock);
+    initialReserved.set(id, state.reserved);
+    initialQuarantined.set(id, state.quarantined);
+  }
+
+  for (const change of changes) {
+    const state = states.get(change.variantId.toString())!;
+    const variantId = state.variant._id;
+    const locationId = change.locationId?.toString();
+    const releaseReserved = change.releaseReserved || 0;
+    const target = locationId || defaultLocationId;
+
+    let delta: number;
+    if (change.setTo != null) {
+      if (!target) {
+        throw new AppError("locationId is required (no default location)", 400);
+      }
+      delta = change.setTo - (state.levels.get(target) || 0);
+    } else {
+      delta = change.delta;
+    }
+
+    let allocations: [string, number][];
+    if (delta >= 0) {
+      if (!target) {
+        throw new AppError("locationId is required (no default location)", 400);
+      }
+      allocations = [[target, delta]];
+    } else {
+      allocations = allocateDecrement(
+        state,
+        -delta,
+        locationId,
+        defaultLocationId
+      );
+    }
+
+    // lots: FEFO (or the named lot) for decrements, named / new lot for increments
+    const lotId = change.lotId?.toString();
+    const quarantinedBefore = quarantinedTotal(state.lots);
+    let lots: ILotAllocation[] = [];
+    if (delta < 0) {
+      lots = allocateLotDecrement(
+        state.lots,
+        -delta,
+        state.stock - lotTotal(state.lots),
+        variantId,
+        lotId
+      );
+    } else if (delta > 0) {
+      lots = allocateLotIncrement(state.lots, delta, lotId, change.lot);
+    }
+    state.quarantined += quarantinedTotal(state.lots) - quarantinedBefore;
+
+    const before = state.stock;
+    const firstMovement = movements.length;
+
+    for (const [id, amount] of allocations) {
+      const levelStock = (state.levels.get(id) || 0) + amount;
+      if (levelStock < 0) {
+        throw new AppError(
+          `Not enough stock at location ${id} for variant: ${variantId}`,
+          400
+        );
+      }
+      state.levels.set(id, levelStock);
+      state.stock += amount;
+
+      movements.push({
+        variantId,
+        delta: amount,
+        balance: state.stock,
+        reason: change.reason,
+        referenceId: change.referenceId,
+        locationId: new Types.ObjectId(id),
+        locationBalance: levelStock,
+      });
+    }
+    // lot split of the whole line, recorded once on its first movement
+    if (lots.length && movements[firstMovement]) {
+      movements[firstMovement].lots = lots;
+    }
+
+    if (releaseReserved > state.reserved) {
+      throw new AppError(
+        `Reserved stock is out of sync for variant: ${variantId}`,
+        409
+      );
+    }
+    state.reserved -= releaseReserved;
+
+    // reserved units are promised to checkouts and cannot be removed, nor
+    // can picking leave only quarantined units to cover them
+    if (
+      state.stock < state.reserved ||
+      (delta < 0 && !lotId && state.stock - state.quarantined < state.reserved)
+    ) {
+      throw new AppError(`Not enough stock for variant: ${variantId}`, 400);
+    }
+
+    results.push({ variantId, delta, before, after: state.stock, lots });
+  }
+
+  // guarded writes: the filter re-checks the invariants against live data
+  const variantOps = [];
+  const levelOps = [];
+
+  for (const [id, state] of states) {
+    const stockDelta = state.stock - initialStock.get(id)!;
+    const reservedDelta = state.reserved - initialReserved.get(id)!;
+    const quarantinedDelta = state.quarantined - initialQuarantined.get(id)!;
+
+    if (stockDelta !== 0 || reservedDelta !== 0 || quarantinedDelta !== 0) {
+      const reservedAfter = {
+        $add: [{ $ifNull: ["$reserved", 0] }, reservedDelta],
+      };
+      variantOps.push({
+        updateOne: {
+          filter: {
+            _id: state.variant._id,
+            ...expectedVersions.get(id),
+            $expr: {
+              $and: [
+                { $gte: [reservedAfter, 0] },
+                { $gte: [{ $add: ["$stock", stockDelta] }, reservedAfter] },
+              ],
+            },
+          },
+          update: {
+            $inc: {
+              stock: stockDelta,
+              reserved: reservedDelta,
+              quarantined: quarantinedDelta,
+            },
+          },
+        },
+      });
+    }
+
+    for (const [locationId, stock] of state.levels) {
+      const levelDelta = stock - (state.initialLevels.get(locationId) || 0);
+      if (levelDelta === 0) continue;
+
+      const filter: any = { variantId: state.variant._id, locationId };
+      if (levelDelta < 0) filter.stock = { $gte: -levelDelta };
+
+      levelOps.push({
+        updateOne: {
+          filter,
+          update: { $inc: { stock: levelDelta } },
+          upsert: levelDelta > 0,
+        },
+      });
+    }
+  }
+
+  if (variantOps.length) {
+    const result = await Variant.bulkWrite(variantOps, { session });
+    if (result.matchedCount !== variantOps.length) {
+      if (expectedVersions.size) throw new AppError(STALE_VARIANT_MESSAGE, 412);
+      throw new AppError("Stock changed concurrently, please retry", 409);
+    }
+  }
+  if (levelOps.length) {
+    const result = await InventoryLevel.bulkWrite(levelOps, { session });
+    if (result.matchedCount + result.upsertedCount !== levelOps.length) {
+      throw new AppError("Stock changed concurrently, please retry", 409);
+    }
+  }
+
+  if (!(await writeLotStates(lotsByVariant, actor, session))) {
+    throw new AppError("Stock changed concurrently, please retry", 409);
+  }
+
+  await recordStockMovements(movements, actor, session);
+
+  const variants = new Map<string, IVariantDocument>();
+  const updated = await Variant.find({
+    _id: { $in: Array.from(states.keys()) },
+  }).session(session);
+
+  for (const variant of updated) {
+    const id = variant._id.toString();
+    variants.set(id, variant);
+    await evaluateStockThreshold(variant, initialStock.get(id)!, session);
+  }
+  await refreshBundleStock(Array.from(states.keys()), session);
+
+  await enqueueEvents(
+    results
+      .map((result, i) => ({ result, change: changes[i] }))
+      .filter(({ result }) => result.delta !== 0)
+      .map(({ result, change }) => ({
+        type: "variant.stock_changed" as const,
+        aggregateId: result.variantId,
+        data: {
+          variantId: result.variantId.toString(),
+          delta: result.delta,
+          before: result.before,
+          after: result.after,
+          available: variants.get(result.variantId.toString())?.available,
+          reason: change.reason,
+          referenceId: change.referenceId,
+          locationId: change.locationId?.toString(),
+          lots: result.lots.map((lot) => ({
+            lotId: lot.lotId.toString(),
+            batchCode: lot.batchCode,
+            quantity: lot.quantity,
+          })),
+        },
+      })),
+    session
+  );
+
+  return { results, variants };
+};
+
+/**
+ * Apply a single stock change. Same rules as applyStockChanges; returns the
+ * updated variant with its before/after balance.
+ */
+export const applyStockChange = async (
+  change: StockChange,
+  actor: StockActor | undefined,
+  session: ClientSession
+) => {
+  const { results, variants } = await applyStockChanges(
+    [change],
+    actor,
+    session
+  );
+  const [{ before, after }] = results;
+
+  return {
+    variant: variants.get(change.variantId.toString())!,
+    before,
+    after,
+  };
+};
+
+/**
+ * Move quantity between two locations. The variant aggregate does not change;
+ * the ledger gets a matching pair of "transfer" movements.
+ */
+export const transferStock = async (
+  transfer: {
+    variantId: Types.ObjectId | string;
+    fromLocationId: Types.ObjectId | string;
+    toLocationId: Types.ObjectId | string;
+    quantity: number;
+    referenceId?: string;
+  },
+  actor: StockActor | undefined,
+  session: ClientSession
+) => {
+  const { variantId, quantity, referenceId } = transfer;
+
+  const variant = await ensureInventoryLevels(variantId, session);
+  const fromLocationId = await resolveLocationId(transfer.fromLocationId, session);
+  const toLocationId = await resolveLocationId(transfer.toLocationId, session);
+
+  if (fromLocationId.equals(toLocationId)) {
+    throw new AppError("Source and destination locations must differ", 400);
+  }
+
+  const from = await adjustLevel(variantId, fromLocationId, -quantity, session);
+  const to = await adjustLevel(variantId, toLocationId, quantity, session);
+
+  await recordStockMovements(
+    [
+      {
+        variantId,
+        delta: -quantity,
+        balance: variant.stock,
+        reason: "transfer",
+        referenceId,
+        locationId: fromLocationId,
+        locationBalance: from.stock,
+      },
+      {
+        variantId,
+        delta: quantity,
+        balance: variant.stock,
+        reason: "transfer",
+        referenceId,
+        locationId: toLocationId,
+        locationBalance: to.stock,
+      },
+    ],
+    actor,
+    session
+  );
+
+  return { from, to };
+};
@@ -0,0 +1,76 @@
+import { ClientSession } from "mongoose";
+import StockAlert from "../models/stockAlert.model";
+import { IVariantDocument } from "../schema/variant.schema";
+
+/**
+ * Raise a low-stock alert when a change takes stock from above the reorder
+ * point to at or below it, and resolve outstanding alerts once stock is back
+ * above it. A variant never has more than one unresolved alert.
+ */
+export const evaluateStockThreshold = async (
+  variant: IVariantDocument,
+  previousStock: number,
+  session?: ClientSession
+) => {
+  const { reorderPoint } = variant;
+  if (reorderPoint == null) return null;
+
+  const wasAbove = previousStock > reorderPoint;
+  const isAbove = variant.stock > reorderPoint;
+
+  if (wasAbove && !isAbove) {
+    const unresolved = await StockAlert.exists({
+      variantId: variant._id,
+      status: { $ne: "resolved" },
+    }).session(session || null);
+    if (unresolved) return null;
+
+    const [alert] = await StockAlert.create(
+      [
+        {
+          variantId: variant._id,
+          type: "low_stock",
+          stock: variant.stock,
+          reorderPoint,
+          reorderQuantity: variant.reorderQuantity,
+        },
+      ],
+      { session }
+    );
+    return alert;
+  }
+
+  if (!wasAbove && isAbove) {
+    await StockAlert.updateMany(
+      { variantId: variant._id, status: { $ne: "resolved" } },
+      { status: "resolved", resolvedAt: new Date() },
+      { session }
+    );
+  }
+
+  return null;
+};
+
+/**
+ * Re-check a variant after its reorder point changed (stock did not): raise
+ * an alert if it now sits at or below the point, resolve outstanding alerts
+ * if it is above it or the point was cleared.
+ */
+export const evaluateReorderPoint = async (
+  variant: IVariantDocument,
+  session?: ClientSession
+) => {
+  const { reorderPoint } = variant;
+
+  if (reorderPoint == null || variant.stock > reorderPoint) {
+    await StockAlert.updateMany(
+      { variantId: variant._id, status: { $ne: "resolved" } },
+      { status: "resolved", resolvedAt: new Date() },
+      { session }
+    );
+    return null;
+  }
+
+  // treat it as a crossing; an unresolved alert is left as it is
+  return evaluateStockThreshold(variant, Infinity, session);
+};
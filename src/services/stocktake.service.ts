@@ -0,0 +1,229 @@
+import { ClientSession, Types } from "mongoose";
+import Variant from "../models/variant.model";
+import InventoryLevel from "../models/inventoryLevel.model";
+import Location from "../models/location.model";
+import StockMovement from "../models/stockMovement.model";
+import {
+  IStocktakeDocument,
+  IStocktakeLine,
+} from "../schema/stocktake.schema";
+import { AppError } from "../utils/appError";
+import { roundAmount } from "../utils/pricing";
+import { applyStockChanges, StockActor } from "./stock.service";
+
+/**
+ * Expected quantity per variant when a count opens: the aggregate stock, or
+ * the stock at one location. Variants that predate multi-location have no
+ * levels; their whole stock counts as being at the default location.
+ */
+export const snapshotExpected = async (
+  variantIds: string[],
+  locationId?: string
+) => {
+  const variants = await Variant.find({ _id: { $in: variantIds } });
+  const byId = new Map(variants.map((v) => [v._id.toString(), v]));
+
+  const missing = variantIds.filter((id) => !byId.has(id));
+  if (missing.length) {
+    throw new AppError(`Variant(s) not found: ${missing.join(", ")}`, 404);
+  }
+  const bundles = variants.filter((v) => v.kind === "bundle");
+  if (bundles.length) {
+    throw new AppError(
+      `Bundles are counted through their components: ${bundles.map((v) => v.sku).join(", ")}`,
+      400
+    );
+  }
+
+  const expected = new Map(variants.map((v) => [v._id.toString(), v.stock]));
+
+  if (locationId) {
+    const location = await Location.findById(locationId);
+    if (!location) throw new AppError("Location not found", 404);
+
+    const levels = await InventoryLevel.find({
+      variantId: { $in: variantIds },
+    });
+    const hasLevels = new Set(levels.map((l) => l.variantId.toString()));
+    const atLocation = new Map(
+      levels
+        .filter((l) => l.locationId.equals(location._id))
+        .map((l) => [l.variantId.toString(), l.stock])
+    );
+
+    for (const id of variantIds) {
+      if (hasLevels.has(id)) expected.set(id, atLocation.get(id) || 0);
+      else if (!location.isDefault) expected.set(id, 0);
+    }
+  }
+
+  return variants.map((variant) => ({
+    variantId: variant._id,
+    sku: variant.sku,
+    expectedQuantity: expected.get(variant._id.toString())!,
+    unitPrice: variant.price,
+    counts: [],
+  }));
+};
+
+// Apply one count submission to a line
+export const recordCount = (
+  line: IStocktakeLine,
+  quantity: number,
+  mode: "set" | "add",
+  pass: number,
+  countedBy?: Types.ObjectId | string
+) => {
+  line.counts.push({
+    quantity,
+    mode,
+    pass,
+    countedBy: countedBy as Types.ObjectId | undefined,
+    countedAt: new Date(),
+  });
+  line.countedQuantity =
+    mode === "add" ? (line.countedQuantity || 0) + quantity : quantity;
+};
+
+/**
+ * Net stock movements per counted line between the snapshot and the line's
+ * last count: sales and receipts the shelf count already reflects. Keyed by
+ * variantId; scoped to the stocktake's location when it has one.
+ */
+export const movementsBeforeCount = async (
+  stocktake: IStocktakeDocument,
+  session?: ClientSession
+) => {
+  const countedAt = new Map<string, Date>();
+  for (const line of stocktake.lines) {
+    const last = line.counts[line.counts.length - 1];
+    if (last) countedAt.set(line.variantId.toString(), last.countedAt);
+  }
+
+  const moved = new Map<string, number>();
+  if (!countedAt.size) return moved;
+
+  const latest = new Date(
+    Math.max(...[...countedAt.values()].map((d) => d.getTime()))
+  );
+  const movements = await StockMovement.find({
+    variantId: { $in: [...countedAt.keys()] },
+    createdAt: { $gt: stocktake.createdAt, $lte: latest },
+    ...(stocktake.locationId && { locationId: stocktake.locationId }),
+  })
+    .select("variantId delta createdAt")
+    .session(session || null);
+
+  for (const movement of movements) {
+    const id = movement.variantId.toString();
+    if (movement.createdAt > countedAt.get(id)!) continue;
+    moved.set(id, (moved.get(id) || 0) + movement.delta);
+  }
+  return moved;
+};
+
+/**
+ * Variance per line (counted - expected) valued at the snapshot price. The
+ * expected quantity is the snapshot moved on by what was sold or received
+ * before the line was counted (stored on close, `moved` while open).
+ * Uncounted lines carry no variance; they are listed so they can be chased.
+ */
+export const varianceReport = (
+  stocktake: IStocktakeDocument,
+  moved = new Map<string, number>()
+) => {
+  const lines = stocktake.lines.map((line) => {
+    const counted = line.countedQuantity != null;
+    const movedBeforeCount =
+      line.movedBeforeCount ?? moved.get(line.variantId.toString()) ?? 0;
+    const expected = line.expectedQuantity + movedBeforeCount;
+    const variance = counted ? line.countedQuantity! - expected : null;
+    return {
+      lineId: line._id,
+      variantId: line.variantId,
+      sku: line.sku,
+      expectedQuantity: line.expectedQuantity,
+      movedBeforeCount,
+      countedQuantity: line.countedQuantity ?? null,
+      variance,
+      unitPrice: line.unitPrice,
+      varianceValue:
+        variance == null ? null : roundAmount(variance * line.unitPrice),
+      passes: new Set(line.counts.map((c) => c.pass)).size,
+    };
+  });
+
+  const withVariance = lines.filter((l) => l.variance);
+  return {
+    summary: {
+      lines: lines.length,
+      counted: lines.filter((l) => l.variance != null).length,
+      uncounted: lines.filter((l) => l.variance == null).length,
+      withVariance: withVariance.length,
+      unitsOver: withVariance
+        .filter((l) => l.variance! > 0)
+        .reduce((sum, l) => sum + l.variance!, 0),
+      unitsShort: withVariance
+        .filter((l) => l.variance! < 0)
+        .reduce((sum, l) => sum - l.variance!, 0),
+      netValue: roundAmount(
+        withVariance.reduce((sum, l) => sum + l.varianceValue!, 0)
+      ),
+    },
+    lines,
+  };
+};
+
+/**
+ * Post the variances as adjustments and close the count, in the caller's
+ * transaction. Movements booked before a line was counted are part of its
+ * expected quantity; later ones are kept, as variances are applied as
+ * deltas. Uncounted lines are skipped, or counted as zero with
+ * `uncounted: "zero"`.
+ */
+export const closeStocktake = async (
+  stocktake: IStocktakeDocument,
+  options: { uncounted: "skip" | "zero"; actor?: StockActor },
+  session: ClientSession
+) => {
+  if (stocktake.status !== "open") {
+    throw new AppError(`Stocktake is ${stocktake.status}`, 409);
+  }
+
+  // zeroed lines count as counted now, so every movement so far is expected
+  for (const line of stocktake.lines) {
+    if (line.countedQuantity == null && options.uncounted === "zero") {
+      recordCount(line, 0, "set", stocktake.passes, options.actor?.userId);
+    }
+  }
+  const moved = await movementsBeforeCount(stocktake, session);
+
+  for (const line of stocktake.lines) {
+    if (line.countedQuantity != null) {
+      line.movedBeforeCount = moved.get(line.variantId.toString()) || 0;
+      line.adjustment =
+        line.countedQuantity - (line.expectedQuantity + line.movedBeforeCount);
+    }
+  }
+
+  const changes = stocktake.lines
+    .filter((line) => line.adjustment)
+    .map((line) => ({
+      variantId: line.variantId,
+      delta: line.adjustment!,
+      reason: "adjustment" as const,
+      referenceId: stocktake.code,
+      locationId: stocktake.locationId,
+    }));
+
+  if (changes.length) {
+    await applyStockChanges(changes, options.actor, session);
+  }
+
+  stocktake.status = "closed";
+  stocktake.closedAt = new Date();
+  stocktake.closedBy = options.actor?.userId as Types.ObjectId | undefined;
+  await stocktake.save({ session });
+
+  return changes.length;
+};
@@ -0,0 +1,419 @@
+import { ClientSession, Types } from "mongoose";
+import { z } from "zod";
+import Variant from "../models/variant.model";
+import { IVariantDocument } from "../schema/variant.schema";
+import { importVariantRowSchema } from "../validations/variant.validation";
+import { AppError } from "../utils/appError";
+import { parseCsv, unescapeCell } from "../utils/csv";
+import { computeDiscountPrice } from "../utils/pricing";
+import { getProductClient } from "./productClient.service";
+import { priceStateOf, recordPriceChanges } from "./priceHistory.service";
+import { applyStockChanges, StockActor, StockChange } from "./stock.service";
+import { enqueueEvents } from "./outbox.service";
+import { syncBundlePrices } from "./bundle.service";
+import {
+  variantCreatedEvents,
+  variantStatusEvent,
+} from "./variantEvents.service";
+
+const MAX_IMPORT_ROWS = Number(process.env.CSV_IMPORT_MAX_ROWS) || 5000;
+
+export const EXPORT_COLUMNS = [
+  "sku",
+  "productId",
+  "size",
+  "price",
+  "discountPercent",
+  "discountPrice",
+  "stock",
+  "reserved",
+  "quarantined",
+  "available",
+  "isActive",
+  "status",
+  "reorderPoint",
+  "reorderQuantity",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+const IMPORT_COLUMNS = [
+  "sku",
+  "productId",
+  "size",
+  "price",
+  "stock",
+  "discountPercent",
+  "isActive",
+  "reorderPoint",
+  "reorderQuantity",
+];
+
+// export-only columns, ignored so an exported file can be imported back
+const READ_ONLY_COLUMNS = [
+  "discountPrice",
+  "reserved",
+  "quarantined",
+  "available",
+  "status",
+  "createdAt",
+  "updatedAt",
+];
+
+// fields an import row may change on an existing variant
+const UPDATABLE_FIELDS = [
+  "price",
+  "discountPercent",
+  "isActive",
+  "reorderPoint",
+  "reorderQuantity",
+] as const;
+
+type ImportRow = z.infer<typeof importVariantRowSchema>;
+
+export interface ImportRowResult {
+  row: number; // line number in the file, the header is line 1
+  action?: "create" | "update" | "unchanged";
+  sku?: string;
+  variantId?: Types.ObjectId;
+  changes?: string[];
+  errors?: string[];
+}
+
+interface PlannedRow {
+  data: ImportRow;
+  existing?: IVariantDocument;
+  result: ImportRowResult;
+}
+
+export interface VariantImportPlan {
+  rows: PlannedRow[];
+  hasErrors: boolean;
+}
+
+const productSizeKey = (productId: unknown, size: string) =>
+  `${productId}:${size}`;
+
+export const exportRow = (variant: IVariantDocument) => {
+  const json: any = variant.toJSON();
+  return EXPORT_COLUMNS.map((column) => json[column]);
+};
+
+/**
+ * Parse and check a CSV import without writing anything. Every row is
+ * matched to an existing variant (by sku, else productId + size) and gets
+ * an action, the fields it would change, or its errors.
+ */
+export const planVariantImport = async (
+  csv: string
+): Promise<VariantImportPlan> => {
+  const [header, ...lines] = parseCsv(csv);
+  if (!header) throw new AppError("CSV is empty", 400);
+
+  const columns = header.map((column) => column.trim());
+  const unknown = columns.filter(
+    (c) => !IMPORT_COLUMNS.includes(c) && !READ_ONLY_COLUMNS.includes(c)
+  );
+  if (unknown.length) {
+    throw new AppError(`Unknown column(s): ${unknown.join(", ")}`, 400);
+  }
+  if (!lines.length) throw new AppError("CSV has no data rows", 400);
+  if (lines.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`At most ${MAX_IMPORT_ROWS} rows per import`, 400);
+  }
+
+  const rows: PlannedRow[] = lines.map((cells, i) => {
+    const result: ImportRowResult = { row: i + 2 };
+    const raw: Record<string, string> = {};
+    columns.forEach((column, c) => {
+      if (IMPORT_COLUMNS.includes(column)) {
+        raw[column] = unescapeCell(cells[c] ?? "");
+      }
+    });
+
+    const parsed = importVariantRowSchema.safeParse(raw);
+    if (!parsed.success) {
+      result.errors = parsed.error.issues.map((issue) =>
+        issue.path.length
+          ? `${issue.path.join(".")}: ${issue.message}`
+          : issue.message
+      );
+      return { data: {} as ImportRow, result };
+    }
+    return { data: parsed.data, result };
+  });
+
+  const valid = rows.filter((r) => !r.result.errors);
+  const skus = valid.map((r) => r.data.sku).filter(Boolean) as string[];
+  const productIds = [
+    ...new Set(valid.map((r) => r.data.productId).filter(Boolean) as string[]),
+  ];
+
+  const existing = await Variant.find({
+    $or: [{ sku: { $in: skus } }, { productId: { $in: productIds } }],
+  });
+  const bySku = new Map(existing.map((v) => [v.sku, v]));
+  const byProductSize = new Map(
+    existing.map((v) => [productSizeKey(v.productId, v.size), v])
+  );
+
+  const seen = new Map<string, number>();
+  const newProductIds = new Set<string>();
+
+  for (const planned of valid) {
+    const { data, result } = planned;
+    const errors: string[] = [];
+
+    const keys = [
+      data.sku && `sku:${data.sku}`,
+      data.productId && data.size && productSizeKey(data.productId, data.size),
+    ].filter(Boolean) as string[];
+    for (const key of keys) {
+      const firstRow = seen.get(key);
+      if (firstRow) errors.push(`Duplicate of row ${firstRow}`);
+      else seen.set(key, result.row);
+    }
+
+    const bySizeMatch =
+      data.productId && data.size
+        ? byProductSize.get(productSizeKey(data.productId, data.size))
+        : undefined;
+    const variant = data.sku ? bySku.get(data.sku) : bySizeMatch;
+
+    if (variant) {
+      if (data.productId && data.productId !== variant.productId.toString()) {
+        errors.push("productId does not match the existing variant");
+      }
+      if (data.size && data.size !== variant.size) {
+        errors.push("size cannot be changed by import");
+      }
+      // bundles are priced and stocked through their components
+      if (variant.kind === "bundle") {
+        if (data.price !== undefined && data.price !== variant.price) {
+          errors.push("bundle price cannot be changed by import");
+        }
+        if (data.stock !== undefined && data.stock !== variant.stock) {
+          errors.push("bundle stock cannot be changed by import");
+        }
+      }
+      if (
+        variant.status === "archived" &&
+        data.isActive !== undefined &&
+        data.isActive !== variant.isActive
+      ) {
+        errors.push("variant is archived, restore it first");
+      }
+
+      const changes: string[] = UPDATABLE_FIELDS.filter(
+        (field) => data[field] !== undefined && data[field] !== variant[field]
+      );
+      if (data.stock !== undefined && data.stock !== variant.stock) {
+        changes.push("stock");
+      }
+
+      planned.existing = variant;
+      result.action = changes.length ? "update" : "unchanged";
+      result.sku = variant.sku;
+      result.variantId = variant._id;
+      result.changes = changes;
+    } else {
+      if (!data.productId || !data.size) {
+        errors.push("productId and size are required to create a variant");
+      } else if (bySizeMatch) {
+        errors.push(`productId + size already used by SKU ${bySizeMatch.sku}`);
+      }
+      if (data.price === undefined) {
+        errors.push("price is required to create a variant");
+      }
+      if (data.productId) newProductIds.add(data.productId);
+
+      result.action = "create";
+      result.sku = data.sku;
+    }
+
+    if (errors.length) result.errors = errors;
+  }
+
+  // new variants must belong to a product that exists upstream
+  const missingProducts = new Set<string>();
+  for (const productId of newProductIds) {
+    try {
+      await getProductClient().assertProductExists(productId);
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === 404) {
+        missingProducts.add(productId);
+      } else {
+        throw error;
+      }
+    }
+  }
+  for (const { data, result } of valid) {
+    if (result.action === "create" && missingProducts.has(data.productId!)) {
+      result.errors = [...(result.errors || []), "Product not found"];
+    }
+  }
+
+  for (const { result } of rows) {
+    if (result.errors) delete result.action;
+  }
+
+  return { rows, hasErrors: rows.some((r) => r.result.errors) };
+};
+
+/**
+ * Write a checked import plan inside the caller's transaction. Stock for new
+ * and updated variants goes through the stock ledger as adjustments.
+ */
+export const applyVariantImport = async (
+  plan: VariantImportPlan,
+  actor: StockActor | undefined,
+  session: ClientSession
+) => {
+  if (plan.hasErrors) throw new AppError("Import has errors", 400);
+
+  const toCreate = plan.rows.filter((r) => r.result.action === "create");
+  const toUpdate = plan.rows.filter((r) => r.result.action === "update");
+  const stockChanges: StockChange[] = [];
+  const referenceId = `csv-import-${Date.now()}`;
+
+  if (toCreate.length) {
+    const created = await Variant.create(
+      toCreate.map(({ data }) => ({
+        productId: data.productId,
+        size: data.size,
+        sku: data.sku,
+        price: data.price,
+        discountPercent: data.discountPercent || 0,
+        discountPrice: computeDiscountPrice(
+          data.price!,
+          data.discountPercent || 0
+        ),
+        isActive: data.isActive ?? true,
+        reorderPoint: data.reorderPoint,
+        reorderQuantity: data.reorderQuantity,
+        stock: 0,
+        createdBy: actor?.userId,
+      })),
+      { session, ordered: true }
+    );
+    await enqueueEvents(variantCreatedEvents(created), session);
+
+    await recordPriceChanges(
+      created.map((v) => ({ variantId: v._id, after: priceStateOf(v) })),
+      { source: "create", referenceId, actor },
+      session
+    );
+
+    created.forEach((variant, i) => {
+      const { data, result } = toCreate[i];
+      result.variantId = variant._id;
+      result.sku = variant.sku;
+      if (data.stock) {
+        stockChanges.push({
+          variantId: variant._id,
+          delta: data.stock,
+          reason: "adjustment",
+          referenceId,
+        });
+      }
+    });
+  }
+
+  const bulkOps = toUpdate.map(({ data, existing }) => {
+    const $set: any = {};
+    for (const field of UPDATABLE_FIELDS) {
+      if (data[field] !== undefined) $set[field] = data[field];
+    }
+    // bulkWrite skips the model hook that keeps status in step
+    if ($set.isActive !== undefined && $set.isActive !== existing!.isActive) {
+      $set.status = $set.isActive ? "active" : "inactive";
+    }
+    if ($set.price !== undefined || $set.discountPercent !== undefined) {
+      $set.discountPrice = computeDiscountPrice(
+        $set.price ?? existing!.price,
+        $set.discountPercent ?? existing!.discountPercent ?? 0
+      );
+    }
+
+    // the stock column is the total across locations, so book the difference
+    if (data.stock !== undefined && data.stock !== existing!.stock) {
+      stockChanges.push({
+        variantId: existing!._id,
+        delta: data.stock - existing!.stock,
+        reason: "adjustment",
+        referenceId,
+      });
+    }
+
+    // fail if the variant was written after the plan was made
+    return {
+      updateOne: {
+        filter: { _id: existing!._id, updatedAt: existing!.updatedAt },
+        update: { $set },
+      },
+    };
+  });
+
+  if (bulkOps.length) {
+    const result = await Variant.bulkWrite(bulkOps, { session });
+    if (result.matchedCount !== bulkOps.length) {
+      throw new AppError("Variants changed during import, please retry", 409);
+    }
+  }
+
+  await enqueueEvents(
+    toUpdate
+      .filter(
+        ({ data, existing }) =>
+          data.isActive !== undefined && data.isActive !== existing!.isActive
+      )
+      .map(({ data, existing }) =>
+        variantStatusEvent(
+          {
+            _id: existing!._id,
+            productId: existing!.productId,
+            isActive: data.isActive!,
+            status: data.isActive ? "active" : "inactive",
+          },
+          existing!
+        )
+      ),
+    session
+  );
+
+  await recordPriceChanges(
+    toUpdate.map(({ existing }, i) => {
+      const { $set } = bulkOps[i].updateOne.update;
+      return {
+        variantId: existing!._id,
+        before: priceStateOf(existing!),
+        after: priceStateOf({ ...priceStateOf(existing!), ...$set }),
+      };
+    }),
+    { source: "import", referenceId, actor },
+    session
+  );
+
+  // bundles priced from their components follow component price changes
+  const repriced = toUpdate
+    .filter(
+      ({ data, existing }) =>
+        data.price !== undefined && data.price !== existing!.price
+    )
+    .map(({ existing }) => existing!._id);
+  if (repriced.length) await syncBundlePrices(repriced, actor, session);
+
+  if (stockChanges.length) {
+    await applyStockChanges(stockChanges, actor, session);
+  }
+
+  return plan.rows.map((r) => r.result);
+};
+
+export const summarizeImport = (results: ImportRowResult[]) => ({
+  rows: results.length,
+  create: results.filter((r) => r.action === "create").length,
+  update: results.filter((r) => r.action === "update").length,
+  unchanged: results.filter((r) => r.action === "unchanged").length,
+  errors: results.filter((r) => r.errors).length,
+});
@@ -0,0 +1,49 @@
+import { IVariant, IVariantDocument } from "../schema/variant.schema";
+import { NewDomainEvent } from "./outbox.service";
+
+// Builders for variant events that are not emitted by the stock / price services
+
+export const variantCreatedEvents = (
+  variants: IVariantDocument[]
+): NewDomainEvent[] =>
+  variants.map((variant) => ({
+    type: "variant.created",
+    aggregateId: variant._id,
+    data: {
+      variantId: variant._id.toString(),
+      productId: variant.productId.toString(),
+      sku: variant.sku,
+      size: variant.size,
+      price: variant.price,
+      discountPercent: variant.discountPercent || 0,
+      discountPrice: variant.discountPrice,
+      isActive: variant.isActive,
+      status: variant.status,
+    },
+  }));
+
+export const variantStatusEvent = (
+  variant: Pick<IVariantDocument, "_id" | "productId" | "isActive" | "status">,
+  previous: Pick<IVariant, "isActive" | "status">
+): NewDomainEvent => ({
+  type: "variant.status_changed",
+  aggregateId: variant._id,
+  data: {
+    variantId: variant._id.toString(),
+    productId: variant.productId.toString(),
+    previous: { isActive: previous.isActive, status: previous.status },
+    current: { isActive: variant.isActive, status: variant.status },
+  },
+});
+
+export const variantDeletedEvent = (
+  variant: Pick<IVariantDocument, "_id" | "productId" | "sku">
+): NewDomainEvent => ({
+  type: "variant.deleted",
+  aggregateId: variant._id,
+  data: {
+    variantId: variant._id.toString(),
+    productId: variant.productId.toString(),
+    sku: variant.sku,
+  },
+});
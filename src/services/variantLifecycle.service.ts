@@ -0,0 +1,171 @@
+import { ClientSession, Types } from "mongoose";
+import Variant from "../models/variant.model";
+import Audit from "../models/audit.model";
+import DiscountSchedule from "../models/discountSchedule.model";
+import InventoryLevel from "../models/inventoryLevel.model";
+import Lot from "../models/lot.model";
+import PurchaseOrder from "../models/purchaseOrder.model";
+import Reservation from "../models/reservation.model";
+import StockAlert from "../models/stockAlert.model";
+import Stocktake from "../models/stocktake.model";
+import VariantPrice from "../models/variantPrice.model";
+import { OPEN_PURCHASE_ORDER_STATUSES } from "../schema/purchaseOrder.schema";
+import { IVariantDocument, VariantStatus } from "../schema/variant.schema";
+import { AppError } from "../utils/appError";
+import logger from "../utils/logger";
+import { enqueueEvents } from "./outbox.service";
+import {
+  variantDeletedEvent,
+  variantStatusEvent,
+} from "./variantEvents.service";
+
+// Variants created before the lifecycle get a status from isActive
+export const backfillVariantStatus = async () => {
+  const result = await Variant.updateMany({ status: { $exists: false } }, [
+    { $set: { status: { $cond: ["$isActive", "active", "inactive"] } } },
+  ]);
+  if (result.modifiedCount) {
+    logger.info(`Backfilled status on ${result.modifiedCount} variant(s)`);
+  }
+  return result.modifiedCount;
+};
+
+/**
+ * Move a variant to another lifecycle status in the caller's session;
+ * isActive follows through the model hook. Returns false if nothing changed.
+ */
+export const changeVariantStatus = async (
+  variant: IVariantDocument,
+  status: VariantStatus,
+  session: ClientSession
+) => {
+  const previous = { isActive: variant.isActive, status: variant.status };
+  if (previous.status === status) return false;
+
+  variant.status = status;
+  variant.archivedAt = status === "archived" ? new Date() : undefined;
+  await variant.save({ session });
+  await enqueueEvents([variantStatusEvent(variant, previous)], session);
+  return true;
+};
+
+// Archive every variant of a product (the product was deleted upstream)
+export const archiveProductVariants = async (
+  productId: Types.ObjectId | string,
+  session: ClientSession
+) => {
+  const variants = await Variant.find({
+    productId,
+    status: { $ne: "archived" },
+  }).session(session);
+
+  for (const variant of variants) {
+    await changeVariantStatus(variant, "archived", session);
+  }
+  return variants;
+};
+
+// Why a variant cannot be removed: stock it holds and records still using it
+export const deleteBlockers = async (
+  variant: IVariantDocument,
+  session: ClientSession
+) => {
+  const id = variant._id;
+  const blockers: string[] = [];
+
+  // a bundle's stock is only what its components could make
+  if (variant.kind !== "bundle" && variant.stock > 0) {
+    blockers.push(`${variant.stock} unit(s) on hand`);
+  }
+  if (variant.reserved > 0) blockers.push(`${variant.reserved} unit(s) reserved`);
+
+  const references = [
+    {
+      label: "active reservation(s)",
+      count: Reservation.countDocuments({
+        "items.variantId": id,
+        status: "active",
+      }),
+    },
+    {
+      label: "open purchase order(s)",
+      count: PurchaseOrder.countDocuments({
+        "lines.variantId": id,
+        status: { $in: ["draft", ...OPEN_PURCHASE_ORDER_STATUSES] },
+      }),
+    },
+    {
+      label: "open stocktake(s)",
+      count: Stocktake.countDocuments({
+        "lines.variantId": id,
+        status: "open",
+      }),
+    },
+    {
+      label: "bundle(s) containing it",
+      count: Variant.countDocuments({ "components.variantId": id }),
+    },
+    {
+      label: "pending discount schedule(s)",
+      count: DiscountSchedule.countDocuments({
+        status: { $in: ["scheduled", "active"] },
+        $or: [{ scope: "variant", targetId: id }, { "items.variantId": id }],
+      }),
+    },
+    {
+      label: "pending bulk discount(s)",
+      count: Audit.countDocuments({ status: "pending", "items.variantId": id }),
+    },
+  ];
+
+  for (const { label, count } of references) {
+    const n = await count.session(session);
+    if (n) blockers.push(`${n} ${label}`);
+  }
+  return blockers;
+};
+
+/**
+ * Remove a variant for good, in the caller's transaction. Only drafts and
+ * archived variants without stock or open references can go (a bundle holds
+ * no stock of its own); the ledger, price history and audit log keep their
+ * entries. Stock booked concurrently fails the guarded delete.
+ */
+export const deleteVariant = async (
+  variant: IVariantDocument,
+  session: ClientSession
+) => {
+  if (!["draft", "archived"].includes(variant.status)) {
+    throw new AppError("Only draft or archived variants can be deleted", 409);
+  }
+
+  const blockers = await deleteBlockers(variant, session);
+  if (blockers.length) {
+    throw new AppError(`Variant is still in use: ${blockers.join(", ")}`, 409);
+  }
+
+  // variants from before reservations have no reserved field
+  const { deletedCount } = await Variant.deleteOne(
+    {
+      _id: variant._id,
+      status: variant.status,
+      ...(variant.kind === "bundle" ? {} : { stock: 0 }),
+      reserved: { $in: [0, null] },
+    },
+    { session }
+  );
+  if (!deletedCount) {
+    throw new AppError("Variant changed while deleting, please retry", 409);
+  }
+
+  await InventoryLevel.deleteMany({ variantId: variant._id }, { session });
+  await VariantPrice.deleteMany({ variantId: variant._id }, { session });
+  // lots are empty by now; movements keep their batch codes
+  await Lot.deleteMany({ variantId: variant._id }, { session });
+  await StockAlert.updateMany(
+    { variantId: variant._id, status: { $ne: "resolved" } },
+    { status: "resolved", resolvedAt: new Date() },
+    { session }
+  );
+  await enqueueEvents([variantDeletedEvent(variant)], session);
+};
@@ -0,0 +1,165 @@
+import { Types } from "mongoose";
+import { AppError } from "../utils/appError";
+import { VariantKind, VariantStatus } from "../schema/variant.schema";
+
+export interface VariantFilters {
+  size?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  isActive?: boolean;
+  search?: string;
+  kind?: VariantKind;
+  status?: VariantStatus;
+  includeArchived?: boolean;
+}
+
+// Mongo filter for the variant listing filters (list and CSV export)
+export const buildVariantFilter = (filters: VariantFilters) => {
+  const {
+    size,
+    minPrice,
+    maxPrice,
+    inStock,
+    isActive,
+    search,
+    kind,
+    status,
+    includeArchived,
+  } = filters;
+  const query: any = {};
+
+  // Filtering by size
+  if (size) {
+    query.size = { $regex: new RegExp(size, "i") };
+  }
+
+  // Price range filter
+  if (minPrice != null || maxPrice != null) {
+    query.price = {};
+    if (minPrice != null) query.price.$gte = minPrice;
+    if (maxPrice != null) query.price.$lte = maxPrice;
+  }
+
+  // In-stock filter
+  if (inStock != null) {
+    query.stock = inStock ? { $gt: 0 } : { $lte: 0 };
+  }
+
+  // Active status filter
+  if (isActive != null) {
+    query.isActive = isActive;
+  }
+
+  // Lifecycle status; archived variants are hidden unless asked for
+  if (status) {
+    query.status = status;
+  } else if (!includeArchived) {
+    query.status = { $ne: "archived" };
+  }
+
+  // Standard variants or bundles only (variants created before bundles have no kind)
+  if (kind) {
+    query.kind = kind === "bundle" ? "bundle" : { $ne: "bundle" };
+  }
+
+  // Search by SKU
+  if (search) {
+    query.sku = { $regex: new RegExp(search, "i") };
+  }
+
+  return query;
+};
+
+// sortable fields, each backed by an index
+export const VARIANT_SORT_FIELDS = ["createdAt", "price", "stock", "sku"] as const;
+
+export type VariantSortField = (typeof VARIANT_SORT_FIELDS)[number];
+export type SortOrder = "asc" | "desc";
+
+export const buildVariantSort = (sortBy: VariantSortField, sortOrder: SortOrder) => {
+  const direction = sortOrder === "asc" ? 1 : -1;
+  // _id breaks ties so equal sort values keep a fixed order
+  return { [sortBy]: direction, _id: direction } as Record<string, 1 | -1>;
+};
+
+interface VariantCursor {
+  sortBy: VariantSortField;
+  sortOrder: SortOrder;
+  value: unknown; // sort value of the boundary variant
+  id: string; // _id of the boundary variant
+  direction: "next" | "prev";
+}
+
+export const encodeVariantCursor = (cursor: VariantCursor) => {
+  const value =
+    cursor.value instanceof Date
+      ? { date: cursor.value.toISOString() }
+      : cursor.value;
+  return Buffer.from(JSON.stringify({ ...cursor, value })).toString(
+    "base64url"
+  );
+};
+
+export const decodeVariantCursor = (
+  token: string,
+  sortBy: VariantSortField,
+  sortOrder: SortOrder
+): VariantCursor => {
+  let cursor: any;
+  try {
+    cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new AppError("Invalid cursor", 400);
+  }
+
+  if (
+    !cursor ||
+    !Types.ObjectId.isValid(cursor.id) ||
+    !["next", "prev"].includes(cursor.direction)
+  ) {
+    throw new AppError("Invalid cursor", 400);
+  }
+  if (cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder) {
+    throw new AppError("Cursor was issued for a different sort order", 400);
+  }
+
+  // the value goes straight into the filter, so only plain values of the
+  // sort field's type are accepted (never an operator object)
+  const { value } = cursor;
+  if (sortBy === "createdAt") {
+    const date =
+      value && typeof value === "object" && typeof value.date === "string"
+        ? new Date(value.date)
+        : undefined;
+    if (!date || isNaN(date.getTime())) {
+      throw new AppError("Invalid cursor", 400);
+    }
+    cursor.value = date;
+  } else if (
+    value !== null &&
+    typeof value !== (sortBy === "sku" ? "string" : "number")
+  ) {
+    throw new AppError("Invalid cursor", 400);
+  }
+  return cursor;
+};
+
+/**
+ * Keyset condition for the page after (or before) the cursor's boundary
+ * variant. Position is (sort value, _id), so documents inserted between
+ * requests never shift or repeat entries the way skip/limit does.
+ */
+export const buildCursorFilter = (cursor: VariantCursor) => {
+  const forward = cursor.direction === "next";
+  const ascending = cursor.sortOrder === "asc";
+  const op = forward === ascending ? "$gt" : "$lt";
+  const id = new Types.ObjectId(cursor.id);
+
+  return {
+    $or: [
+      { [cursor.sortBy]: { [op]: cursor.value } },
+      { [cursor.sortBy]: cursor.value, _id: { [op]: id } },
+    ],
+  };
+};
@@ -0,0 +1,115 @@
+import { Types } from "mongoose";
+import InventoryLevel from "../models/inventoryLevel.model";
+import Location from "../models/location.model";
+import Variant from "../models/variant.model";
+import { IVariantDocument } from "../schema/variant.schema";
+import { getIncomingByVariant } from "./purchaseOrder.service";
+import { PriceSelection, resolveVariantPrices } from "./priceList.service";
+import { bundleQuantity } from "./stock.service";
+
+/**
+ * Shape variants for read endpoints. `stock` stays the aggregate on-hand
+ * quantity; `locations` breaks it down per location and `incoming` is what
+ * open purchase orders still expect. With a currency / price list selected,
+ * `pricing` carries the price in that currency. Bundles list their
+ * `components`, and their `available` is the number of complete sets the
+ * components' available stock makes up.
+ */
+export const presentVariants = async (
+  variants: IVariantDocument[],
+  selection: PriceSelection = {}
+) => {
+  if (!variants.length) return [];
+
+  const variantIds = variants.map((v) => v._id);
+  const levels = await InventoryLevel.find({ variantId: { $in: variantIds } });
+  const locations = await Location.find({});
+  const incomingByVariant = await getIncomingByVariant(variantIds);
+  const prices = await resolveVariantPrices(variants, selection);
+
+  const componentIds = variants.flatMap(
+    (v) => v.components?.map((c) => c.variantId) || []
+  );
+  const componentVariants = componentIds.length
+    ? await Variant.find({ _id: { $in: componentIds } }).select(
+        "sku size stock reserved quarantined isActive"
+      )
+    : [];
+  const componentById = new Map(
+    componentVariants.map((c) => [c._id.toString(), c])
+  );
+  const availableById = new Map(
+    componentVariants.map((c) => [
+      c._id.toString(),
+      // an inactive component cannot be sold, so neither can the bundle
+      c.isActive ? c.available : 0,
+    ])
+  );
+
+  const locationById = new Map(locations.map((l) => [l._id.toString(), l]));
+  const defaultLocation = locations.find((l) => l.isDefault);
+
+  const levelsByVariant = new Map<string, typeof levels>();
+  for (const level of levels) {
+    const key = level.variantId.toString();
+    levelsByVariant.set(key, [...(levelsByVariant.get(key) || []), level]);
+  }
+
+  return variants.map((variant) => {
+    const variantLevels = levelsByVariant.get(variant._id.toString()) || [];
+    const stockByLocation = new Map<string, number>();
+
+    for (const level of variantLevels) {
+      stockByLocation.set(level.locationId.toString(), level.stock);
+    }
+
+    // stock not yet booked to any location (pre multi-location) sits at default
+    const assigned = variantLevels.reduce((sum, l) => sum + l.stock, 0);
+    if (
+      variant.kind !== "bundle" &&
+      !variantLevels.length &&
+      variant.stock > assigned &&
+      defaultLocation
+    ) {
+      stockByLocation.set(defaultLocation._id.toString(), variant.stock - assigned);
+    }
+
+    const bundle = variant.kind === "bundle" && {
+      available: bundleQuantity(variant.components || [], availableById),
+      components: (variant.components || []).map(({ variantId, quantity }) => {
+        const component = componentById.get(variantId.toString());
+        return {
+          variantId,
+          quantity,
+          sku: component?.sku,
+          size: component?.size,
+          available: availableById.get(variantId.toString()) || 0,
+        };
+      }),
+    };
+
+    return {
+      ...variant.toJSON(),
+      ...bundle,
+      incoming: incomingByVariant.get(variant._id.toString()) || 0,
+      ...(prices && { pricing: prices.get(variant._id.toString()) }),
+      locations: Array.from(stockByLocation.entries()).map(
+        ([locationId, stock]) => {
+          const location = locationById.get(locationId);
+          return {
+            locationId: new Types.ObjectId(locationId),
+            code: location?.code,
+            name: location?.name,
+            type: location?.type,
+            stock,
+          };
+        }
+      ),
+    };
+  });
+};
+
+export const presentVariant = async (
+  variant: IVariantDocument,
+  selection: PriceSelection = {}
+) => (await presentVariants([variant], selection))[0];
@@ -0,0 +1,245 @@
+import crypto from "crypto";
+import axios from "axios";
+import WebhookSubscription from "../models/webhookSubscription.model";
+import WebhookDelivery from "../models/webhookDelivery.model";
+import { DomainEvent } from "../schema/outboxEvent.schema";
+import {
+  IWebhookDeliveryDocument,
+  WebhookEventType,
+} from "../schema/webhook.schema";
+import { EventSink } from "./eventSink.service";
+import { AppError } from "../utils/appError";
+import logger from "../utils/logger";
+
+const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 5000;
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+const RETRY_BASE_DELAY_MS = Number(process.env.WEBHOOK_RETRY_DELAY_MS) || 5000;
+// a claimed delivery is retried after this if its worker died mid-request
+const LEASE_MS = Number(process.env.WEBHOOK_LEASE_MS) || 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+const http: ReturnType<typeof axios.create> = axios.create({
+  timeout: TIMEOUT_MS,
+});
+
+export const generateWebhookSecret = () =>
+  crypto.randomBytes(32).toString("hex");
+
+/**
+ * Signature sent in X-Webhook-Signature as "sha256=<hex>". Receivers recompute
+ * it over `${X-Webhook-Timestamp}.${raw body}` with the subscription secret
+ * and should reject old timestamps to prevent replays.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string
+) =>
+  "sha256=" +
+  crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+// Webhook event types a domain event maps to
+export const webhookEventTypesFor = (event: DomainEvent): WebhookEventType[] => {
+  const types: WebhookEventType[] = [event.type];
+
+  if (event.type === "variant.stock_changed") {
+    const before = Number(event.data.before);
+    const after = Number(event.data.after);
+    if (before > 0 && after <= 0) types.push("variant.out_of_stock");
+    if (before <= 0 && after > 0) types.push("variant.back_in_stock");
+  }
+  return types;
+};
+
+/**
+ * Event sink that turns domain events into deliveries for every active
+ * subscription whose filter matches. Sending happens in
+ * dispatchWebhookDeliveries, so a slow partner never holds up the outbox.
+ */
+export const webhookSink: EventSink = {
+  name: "webhooks",
+
+  async publish(event: DomainEvent) {
+    const types = webhookEventTypesFor(event);
+    const subscriptions = await WebhookSubscription.find({
+      isActive: true,
+      events: { $in: types },
+    }).select("events");
+    if (!subscriptions.length) return;
+
+    const now = new Date();
+    const ops = subscriptions.flatMap((subscription) =>
+      types
+        .filter((type) => subscription.events.includes(type))
+        .map((type) => ({
+          updateOne: {
+            filter: {
+              subscriptionId: subscription._id,
+              eventId: event.eventId,
+              eventType: type,
+            },
+            update: {
+              $setOnInsert: {
+                payload: {
+                  eventId: event.eventId,
+                  type,
+                  occurredAt: event.occurredAt,
+                  data: event.data,
+                },
+                status: "pending",
+                attemptCount: 0,
+                availableAt: now,
+              },
+            },
+            upsert: true,
+          },
+        }))
+    );
+
+    // upserts keep a redelivered event from being queued twice
+    await WebhookDelivery.bulkWrite(ops, { ordered: false });
+  },
+};
+
+// POST one delivery and record the attempt; true when the receiver took it
+const attemptDelivery = async (delivery: IWebhookDeliveryDocument) => {
+  const subscription = await WebhookSubscription.findById(
+    delivery.subscriptionId
+  ).select("+secret");
+
+  if (!subscription || !subscription.isActive) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: {
+          status: "failed",
+          lastError: subscription
+            ? "Subscription is disabled"
+            : "Subscription was deleted",
+        },
+      }
+    );
+    return false;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  let statusCode: number | undefined;
+  let error: string | undefined;
+  try {
+    const response = await http.post(subscription.url, body, {
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": delivery._id.toString(),
+        "X-Webhook-Event": delivery.eventType,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookPayload(
+          subscription.secret,
+          timestamp,
+          body
+        ),
+      },
+    });
+    statusCode = response.status;
+  } catch (err: any) {
+    statusCode = err?.response?.status;
+    error = (
+      statusCode ? `HTTP ${statusCode}` : err?.message || "Request failed"
+    ).slice(0, MAX_ERROR_LENGTH);
+  }
+
+  const attempt = {
+    attemptedAt: new Date(startedAt),
+    statusCode,
+    error,
+    durationMs: Date.now() - startedAt,
+  };
+  const attemptCount = delivery.attemptCount + 1;
+
+  if (!error) {
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: { status: "succeeded", attemptCount, deliveredAt: new Date() },
+        $push: { attempts: attempt },
+      }
+    );
+    return true;
+  }
+
+  const failed = attemptCount >= MAX_ATTEMPTS;
+  await WebhookDelivery.updateOne(
+    { _id: delivery._id },
+    {
+      $set: {
+        status: failed ? "failed" : "pending",
+        attemptCount,
+        lastError: error,
+        availableAt: new Date(
+          Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attemptCount - 1)
+        ),
+      },
+      $push: { attempts: attempt },
+    }
+  );
+  if (failed) {
+    logger.error(
+      `Webhook delivery ${delivery._id} to ${subscription.url} failed after ${attemptCount} attempts: ${error}`
+    );
+  }
+  return false;
+};
+
+/**
+ * One worker pass over due deliveries. Each is claimed by pushing its
+ * availableAt out by a lease (same scheme as the outbox dispatcher).
+ */
+export const dispatchWebhookDeliveries = async (batchSize = 50) => {
+  const summary = { succeeded: 0, failed: 0 };
+
+  for (let i = 0; i < batchSize; i++) {
+    const now = new Date();
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { status: "pending", availableAt: { $lte: now } },
+      { $set: { availableAt: new Date(now.getTime() + LEASE_MS) } },
+      { sort: { availableAt: 1, _id: 1 }, new: true }
+    );
+    if (!delivery) break;
+
+    if (await attemptDelivery(delivery)) summary.succeeded++;
+    else summary.failed++;
+  }
+
+  return summary;
+};
+
+/**
+ * Send a failed delivery again right away, with a fresh retry budget if this
+ * attempt fails too. The attempt log is kept across replays.
+ */
+export const replayWebhookDelivery = async (deliveryId: string) => {
+  const now = new Date();
+  const delivery = await WebhookDelivery.findOneAndUpdate(
+    { _id: deliveryId, status: "failed" },
+    {
+      $set: {
+        status: "pending",
+        attemptCount: 0,
+        availableAt: new Date(now.getTime() + LEASE_MS),
+        replayedAt: now,
+      },
+    },
+    { new: true }
+  );
+
+  if (!delivery) {
+    const exists = await WebhookDelivery.exists({ _id: deliveryId });
+    if (!exists) throw new AppError("Delivery not found", 404);
+    throw new AppError("Only failed deliveries can be replayed", 409);
+  }
+
+  await attemptDelivery(delivery);
+  return WebhookDelivery.findById(deliveryId);
+};
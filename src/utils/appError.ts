@@ -12,3 +12,19 @@ export class AppError extends Error {
     Error.captureStackTrace(this, this.constructor);
   }
 }
+
+export interface FieldError {
+  location: "params" | "query" | "body";
+  path: string;
+  message: string;
+}
+
+// 400 carrying every invalid field, produced by the validate middleware
+export class ValidationError extends AppError {
+  errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super("Validation failed", 400);
+    this.errors = errors;
+  }
+}
@@ -0,0 +1,65 @@
+// Minimal RFC 4180 CSV helpers (quoted fields, "" escapes, CRLF or LF)
+
+const formatCell = (value: unknown) => {
+  if (value == null) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  // keep spreadsheets from evaluating text cells as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvLine = (values: unknown[]) =>
+  values.map(formatCell).join(",") + "\r\n";
+
+// Undo formatCell's formula guard so exported files re-import unchanged
+export const unescapeCell = (text: string) =>
+  /^'[=+\-@\t\r]/.test(text) ? text.slice(1) : text;
+
+/**
+ * Parse CSV text into rows of raw string cells. Blank lines are skipped and
+ * a leading BOM (as written by Excel) is ignored.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length) endRow();
+
+  return rows;
+};
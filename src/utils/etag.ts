@@ -0,0 +1,40 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { AppError } from "./appError";
+
+interface Versioned {
+  _id: any;
+  __v?: number;
+  updatedAt?: Date;
+}
+
+/**
+ * Strong ETag for a document. Built from the version key (bumped by save())
+ * and updatedAt (bumped by atomic updates), so any write changes it.
+ */
+export const documentETag = (doc: Versioned) => {
+  const version = `${doc._id}:${doc.__v ?? 0}:${doc.updatedAt?.getTime() ?? 0}`;
+  return `"${crypto.createHash("sha1").update(version).digest("base64url")}"`;
+};
+
+/**
+ * Honour If-Match: throws 412 when the client's copy is stale. Requests
+ * without the header are allowed through unchanged.
+ */
+export const assertIfMatch = (req: Request, doc: Versioned) => {
+  const ifMatch = req.get("If-Match");
+  if (!ifMatch || ifMatch.trim() === "*") return;
+
+  const current = documentETag(doc);
+  const matches = ifMatch
+    .split(",")
+    .map((tag) => tag.trim())
+    .some((tag) => tag === current);
+
+  if (!matches) {
+    throw new AppError(
+      "Variant was modified by someone else, reload and try again",
+      412
+    );
+  }
+};
@@ -0,0 +1,63 @@
+// Price after a percentage discount; 0 means "no discount price".
+// Base prices round to whole units, price lists pass their currency's decimals.
+export const computeDiscountPrice = (
+  price: number,
+  discountPercent: number,
+  decimals = 0
+) =>
+  discountPercent > 0
+    ? roundAmount(price - (price * discountPercent) / 100, decimals)
+    : 0;
+
+export const roundAmount = (amount: number, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round(amount * factor) / factor;
+};
+
+interface PriceTier {
+  minQuantity: number;
+  maxQuantity?: number;
+  unitPrice: number;
+}
+
+// Tier covering a quantity; tiers are ascending and do not overlap
+export const findPriceTier = <T extends PriceTier>(
+  tiers: T[] | undefined,
+  quantity: number
+) =>
+  tiers?.find(
+    (tier) =>
+      quantity >= tier.minQuantity &&
+      (tier.maxQuantity == null || quantity <= tier.maxQuantity)
+  );
+
+/**
+ * Price of `quantity` units. A matching tier's unitPrice replaces the base
+ * price, then discountPercent applies on top of it, rounded like
+ * computeDiscountPrice. Quantities below the first tier pay the base price.
+ */
+export const quotePrice = (
+  variant: {
+    price: number;
+    discountPercent?: number;
+    priceTiers?: PriceTier[];
+  },
+  quantity: number
+) => {
+  const tier = findPriceTier(variant.priceTiers, quantity);
+  const unitPrice = tier ? tier.unitPrice : variant.price;
+  const discountPercent = variant.discountPercent || 0;
+  const discountedUnitPrice =
+    discountPercent > 0
+      ? computeDiscountPrice(unitPrice, discountPercent)
+      : unitPrice;
+
+  return {
+    tier,
+    unitPrice,
+    discountPercent,
+    discountedUnitPrice,
+    discountAmount: (unitPrice - discountedUnitPrice) * quantity,
+    lineTotal: discountedUnitPrice * quantity,
+  };
+};
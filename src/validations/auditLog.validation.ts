@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { AUDIT_ACTIONS } from "../schema/auditLog.schema";
+import { objectId, pagination } from "./common.validation";
+
+export const getAuditLogsSchema = {
+  query: z
+    .object({
+      ...pagination,
+      limit: pagination.limit.default(20),
+      actor: objectId.optional(), // userId
+      variantId: objectId.optional(),
+      productId: objectId.optional(),
+      action: z.enum(AUDIT_ACTIONS).optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+    })
+    .refine(
+      (query) => !query.from || !query.to || query.from <= query.to,
+      "from must be before to"
+    ),
+};
+
+export const getAuditLogByIdSchema = {
+  params: z.object({ auditLogId: objectId }),
+};
@@ -0,0 +1,45 @@
+import { Types } from "mongoose";
+import { z } from "zod";
+
+export const objectId = z
+  .string()
+  .refine((value) => Types.ObjectId.isValid(value), "Invalid ObjectId");
+
+export const pagination = {
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+};
+
+// query strings carry booleans as "true" / "false"
+export const booleanString = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+export const discountPercent = z
+  .number()
+  .min(0, "Discount percent must be between 0 and 100")
+  .max(100, "Discount percent must be between 0 and 100");
+
+// batch details for stock coming in (restock, receipts, returns)
+export const lotInput = z
+  .object({
+    batchCode: z.string().trim().min(1, "batchCode is required"),
+    manufacturedAt: z.coerce.date().optional(),
+    expiresAt: z.coerce.date().optional(),
+  })
+  .refine(
+    (lot) =>
+      !lot.manufacturedAt || !lot.expiresAt || lot.expiresAt > lot.manufacturedAt,
+    "expiresAt must be after manufacturedAt"
+  );
+
+// currency / price list a read endpoint should price variants in
+export const priceSelection = {
+  currency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter ISO code")
+    .transform((value) => value.toUpperCase())
+    .optional(),
+  priceList: z.string().min(1).optional(),
+  region: z.string().min(1).optional(),
+};
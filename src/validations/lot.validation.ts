@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { LOT_STATUSES } from "../schema/lot.schema";
+import {
+  booleanString,
+  lotInput,
+  objectId,
+  pagination,
+} from "./common.validation";
+
+const lotIdParams = z.object({ lotId: objectId });
+
+export const getLotsSchema = {
+  query: z.object({
+    ...pagination,
+    limit: pagination.limit.default(20),
+    variantId: objectId.optional(),
+    status: z.enum(LOT_STATUSES).optional(),
+    batchCode: z.string().optional(),
+  }),
+};
+
+export const getExpiringLotsSchema = {
+  query: z.object({
+    ...pagination,
+    limit: pagination.limit.default(50),
+    days: z.coerce.number().int().min(0).max(3650).default(30),
+    includeExpired: booleanString.default("false"),
+    variantId: objectId.optional(),
+  }),
+};
+
+export const getLotByIdSchema = { params: lotIdParams };
+
+// put stock that is already on hand (untracked) into a lot
+export const createLotSchema = {
+  body: z
+    .object({
+      variantId: objectId,
+      quantity: z.number().int().min(1, "quantity must be >= 1"),
+    })
+    .and(lotInput),
+};
+
+export const quarantineLotSchema = {
+  params: lotIdParams,
+  body: z.object({ reason: z.string().trim().min(1).optional() }),
+};
+
+export const releaseLotSchema = { params: lotIdParams };
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import {
+  booleanString,
+  discountPercent,
+  objectId,
+  pagination,
+} from "./common.validation";
+
+const priceListIdParams = z.object({ priceListId: objectId });
+
+const currency = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter ISO code")
+  .transform((value) => value.toUpperCase());
+
+export const createPriceListSchema = {
+  body: z.object({
+    code: z.string().trim().min(1, "Code is required"),
+    name: z.string().trim().min(1, "Name is required"),
+    currency,
+    region: z.string().trim().min(1).optional(),
+  }),
+};
+
+export const getPriceListsSchema = {
+  query: z.object({
+    currency: currency.optional(),
+    region: z.string().optional(),
+    isActive: booleanString.optional(),
+  }),
+};
+
+export const getPriceListByIdSchema = {
+  params: priceListIdParams,
+  query: z.object({ ...pagination, limit: pagination.limit.default(50) }),
+};
+
+export const updatePriceListSchema = {
+  params: priceListIdParams,
+  body: z.object({
+    name: z.string().trim().min(1).optional(),
+    region: z.string().trim().min(1).nullable().optional(), // null clears it
+    isActive: z.boolean().optional(),
+  }),
+};
+
+export const setPriceListPricesSchema = {
+  params: priceListIdParams,
+  body: z.object({
+    prices: z
+      .array(
+        z.object({
+          variantId: objectId,
+          price: z.number().positive("Price must be greater than 0"),
+          discountPercent: discountPercent.optional(),
+        })
+      )
+      .min(1, "Prices array is required")
+      .refine(
+        (prices) =>
+          new Set(prices.map((p) => p.variantId)).size === prices.length,
+        "Each variant can appear only once"
+      ),
+  }),
+};
+
+export const removePriceListPriceSchema = {
+  params: priceListIdParams.extend({ variantId: objectId }),
+};
+
+export const updatePriceListDiscountSchema = {
+  params: priceListIdParams,
+  body: z
+    .object({
+      discountPercent,
+      variantIds: z.array(objectId).min(1).optional(),
+      productId: objectId.optional(),
+    })
+    .refine(
+      (body) => !(body.variantIds && body.productId),
+      "Use either variantIds or productId, not both"
+    ),
+};
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { PURCHASE_ORDER_STATUSES } from "../schema/purchaseOrder.schema";
+import { lotInput, objectId, pagination } from "./common.validation";
+
+const purchaseOrderIdParams = z.object({ purchaseOrderId: objectId });
+
+const lines = z
+  .array(
+    z.object({
+      variantId: objectId,
+      orderedQuantity: z.number().int().min(1, "orderedQuantity must be >= 1"),
+      unitCost: z.number().min(0, "unitCost must be >= 0"),
+    })
+  )
+  .min(1, "At least one line is required")
+  .refine(
+    (items) =>
+      new Set(items.map((i) => i.variantId)).size === items.length,
+    "Each variant can appear on only one line"
+  );
+
+const supplier = z.object({
+  name: z.string().trim().min(1, "Supplier name is required"),
+  email: z.string().email().optional(),
+  phone: z.string().optional(),
+});
+
+export const createPurchaseOrderSchema = {
+  body: z.object({
+    supplier,
+    lines,
+    expectedAt: z.coerce.date().optional(),
+    notes: z.string().optional(),
+  }),
+};
+
+export const updatePurchaseOrderSchema = {
+  params: purchaseOrderIdParams,
+  body: z
+    .object({
+      supplier: supplier.optional(),
+      lines: lines.optional(),
+      expectedAt: z.coerce.date().nullable().optional(),
+      notes: z.string().optional(),
+    })
+    .refine(
+      (body) => Object.keys(body).length > 0,
+      "Nothing to update"
+    ),
+};
+
+export const getPurchaseOrdersSchema = {
+  query: z.object({
+    ...pagination,
+    status: z.enum(PURCHASE_ORDER_STATUSES).optional(),
+    supplier: z.string().optional(),
+    variantId: objectId.optional(),
+  }),
+};
+
+export const purchaseOrderByIdSchema = { params: purchaseOrderIdParams };
+
+export const receivePurchaseOrderSchema = {
+  params: purchaseOrderIdParams,
+  body: z.object({
+    items: z
+      .array(
+        z.object({
+          variantId: objectId,
+          quantity: z.number().int().min(1, "quantity must be >= 1"),
+          lot: lotInput.optional(), // batch the goods belong to
+        })
+      )
+      .min(1, "Items array is required"),
+    locationId: objectId.optional(),
+    note: z.string().optional(),
+  }),
+};
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { STOCKTAKE_STATUSES } from "../schema/stocktake.schema";
+import { objectId, pagination } from "./common.validation";
+
+const MAX_STOCKTAKE_LINES = Number(process.env.MAX_STOCKTAKE_LINES) || 5000;
+
+const stocktakeIdParams = z.object({ stocktakeId: objectId });
+
+export const openStocktakeSchema = {
+  body: z
+    .object({
+      variantIds: z
+        .array(objectId)
+        .min(1)
+        .max(MAX_STOCKTAKE_LINES)
+        .transform((ids) => [...new Set(ids)])
+        .optional(),
+      productId: objectId.optional(), // every variant of the product
+      locationId: objectId.optional(),
+      note: z.string().optional(),
+    })
+    .refine(
+      (body) => !!body.variantIds !== !!body.productId,
+      "Give either variantIds or productId"
+    ),
+};
+
+export const getStocktakesSchema = {
+  query: z.object({
+    ...pagination,
+    status: z.enum(STOCKTAKE_STATUSES).optional(),
+    variantId: objectId.optional(),
+  }),
+};
+
+export const stocktakeByIdSchema = { params: stocktakeIdParams };
+
+export const cancelStocktakeSchema = { params: stocktakeIdParams };
+
+export const submitCountsSchema = {
+  params: stocktakeIdParams,
+  body: z.object({
+    // "set" = this is the count (recount), "add" = another shelf / bin
+    mode: z.enum(["set", "add"]).default("set"),
+    counts: z
+      .array(
+        z.object({
+          variantId: objectId,
+          quantity: z.number().int().min(0, "quantity must be >= 0"),
+        })
+      )
+      .min(1, "Counts array is required")
+      .max(MAX_STOCKTAKE_LINES),
+  }),
+};
+
+export const closeStocktakeSchema = {
+  params: stocktakeIdParams,
+  body: z.object({
+    uncounted: z.enum(["skip", "zero"]).default("skip"),
+  }),
+};
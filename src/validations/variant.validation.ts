@@ -0,0 +1,463 @@
+import { z } from "zod";
+import { STOCK_MOVEMENT_REASONS } from "../schema/stockMovement.schema";
+import { VARIANT_KINDS, VARIANT_STATUSES } from "../schema/variant.schema";
+import { VARIANT_SORT_FIELDS } from "../services/variantQuery.service";
+import {
+  booleanString,
+  discountPercent,
+  lotInput,
+  objectId,
+  pagination,
+  priceSelection,
+} from "./common.validation";
+
+const MAX_BULK_STOCK_LINES = Number(process.env.MAX_BULK_STOCK_LINES) || 10000;
+
+const variantIdParams = z.object({ variantId: objectId });
+const productIdParams = z.object({ productId: objectId });
+const productIds = z.array(objectId).min(1, "productIds array is required");
+const reason = z.enum(STOCK_MOVEMENT_REASONS);
+
+// statuses set directly; archived goes through archive / restore
+const settableStatus = z.enum(["draft", "active", "inactive"]);
+
+const newVariant = z.object({
+  size: z.string().trim().min(1, "Size is required"),
+  price: z.number().positive("Price must be greater than 0"),
+  stock: z.number().int().min(0, "Stock must be 0 or more"),
+  status: z.enum(["draft", "active"]).default("active"),
+});
+
+// create
+export const createVariantSchema = {
+  params: productIdParams,
+  body: newVariant.extend({ locationId: objectId.optional() }),
+};
+
+export const createVariantsSchema = {
+  params: productIdParams,
+  body: z.object({
+    variants: z
+      .array(newVariant)
+      .min(1, "Variants array is required")
+      .refine(
+        (variants) =>
+          new Set(variants.map((v) => v.size)).size === variants.length,
+        "Duplicate sizes found in request payload"
+      ),
+    locationId: objectId.optional(),
+  }),
+};
+
+// bundles
+const bundleComponents = z
+  .array(
+    z.object({
+      variantId: objectId,
+      quantity: z.number().int().min(1, "quantity must be >= 1"),
+    })
+  )
+  .min(1, "Components array is required")
+  .refine(
+    (components) =>
+      new Set(components.map((c) => c.variantId)).size === components.length,
+    "Each component variant can appear only once"
+  );
+
+const bundlePricing = z.discriminatedUnion("mode", [
+  z.object({
+    mode: z.literal("fixed"),
+    price: z.number().positive("Price must be greater than 0"),
+  }),
+  z.object({
+    mode: z.literal("components"),
+    discountPercent: discountPercent.default(0),
+  }),
+]);
+
+export const createBundleSchema = {
+  params: productIdParams,
+  body: z.object({
+    size: z.string().trim().min(1, "Size is required"), // e.g. "Discovery set"
+    components: bundleComponents,
+    pricing: bundlePricing,
+  }),
+};
+
+export const updateBundleSchema = {
+  params: variantIdParams,
+  body: z
+    .object({
+      components: bundleComponents.optional(),
+      pricing: bundlePricing.optional(),
+    })
+    .refine(
+      (body) => body.components || body.pricing,
+      "Nothing to update (components or pricing)"
+    ),
+};
+
+export const sellBundleSchema = {
+  params: variantIdParams,
+  body: z.object({
+    quantity: z.number().int().min(1, "quantity must be >= 1"),
+    referenceId: z.string().optional(),
+  }),
+};
+
+// get
+export const getAllVariantsByIdsSchema = {
+  query: z.object({
+    variantIds: z
+      .string()
+      .min(1, "variantIds is required")
+      .transform((value) => value.split(",").map((id) => id.trim()))
+      .pipe(z.array(objectId)),
+    ...priceSelection,
+  }),
+};
+
+export const getLowStockVariantsSchema = {
+  query: z.object({
+    ...pagination,
+    limit: pagination.limit.default(20),
+    productId: objectId.optional(),
+  }),
+};
+
+export const getBulkDiscountOperationsSchema = {
+  query: z.object({
+    ...pagination,
+    limit: pagination.limit.default(20),
+    status: z.enum(["pending", "committed", "rolledback", "expired"]).optional(),
+  }),
+};
+
+export const getBulkDiscountOperationSchema = {
+  params: z.object({ operationId: z.string().uuid() }),
+};
+
+export const getVariantByIdSchema = {
+  params: variantIdParams,
+  query: z.object(priceSelection),
+};
+
+export const getStockMovementsSchema = {
+  params: variantIdParams,
+  query: z.object({
+    ...pagination,
+    limit: pagination.limit.default(20),
+    reason: reason.optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  }),
+};
+
+export const getPriceHistorySchema = {
+  params: variantIdParams,
+  query: z.object({
+    ...pagination,
+    limit: pagination.limit.default(50),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  }),
+};
+
+export const getPriceAtSchema = {
+  params: variantIdParams,
+  query: z.object({ at: z.coerce.date({ required_error: "at is required" }) }),
+};
+
+export const getVariantsByProductSchema = {
+  params: productIdParams,
+  query: z.object({
+    ...priceSelection,
+    includeArchived: booleanString.default("false"),
+  }),
+};
+
+export const getVariantsByProductIdsSchema = {
+  query: z.object({
+    ...priceSelection,
+    includeArchived: booleanString.default("false"),
+  }),
+  body: z.object({ productIds }),
+};
+
+// listing filters shared by getAllVariants and the CSV export
+const variantFilters = {
+  size: z.string().optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  inStock: booleanString.optional(),
+  isActive: booleanString.optional(),
+  search: z.string().optional(),
+  kind: z.enum(VARIANT_KINDS).optional(),
+  status: z.enum(VARIANT_STATUSES).optional(),
+  includeArchived: booleanString.default("false"), // ignored with status
+  sortBy: z.enum(VARIANT_SORT_FIELDS).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+};
+
+export const getAllVariantsSchema = {
+  query: z.object({
+    ...pagination,
+    ...variantFilters,
+    ...priceSelection,
+    // "cursor" = keyset paging via next/prev cursors, implied by ?cursor=
+    pagination: z.enum(["page", "cursor"]).default("page"),
+    cursor: z.string().min(1).optional(),
+    includeTotal: booleanString.default("true"),
+  }),
+};
+
+// update
+export const updateStockSchema = {
+  params: variantIdParams,
+  body: z.object({
+    stock: z
+      .number()
+      .int()
+      .refine((value) => value !== 0, "Stock must be a non-zero integer"),
+    reason: reason.optional(),
+    referenceId: z.string().optional(),
+    locationId: objectId.optional(),
+    // decrements default to FEFO; lotId picks a lot, lot books an increment
+    lotId: objectId.optional(),
+    lot: lotInput.optional(),
+  }).refine(
+    (body) => !(body.lot && body.stock < 0),
+    "lot can only be given with an increase"
+  ),
+};
+
+export const bulkUpdateStockSchema = {
+  body: z.object({
+    updates: z
+      .array(
+        z.object({
+          variantId: objectId,
+          quantity: z.number().int().min(0),
+          type: z.enum(["increase", "decrease", "set"]), // Add = increase, Reduce = decrease, Set = overwrite
+          reason: reason.optional(),
+          referenceId: z.string().optional(),
+          locationId: objectId.optional(),
+          lotId: objectId.optional(),
+          lot: lotInput.optional(),
+        })
+      )
+      .min(1, "Updates array is required")
+      .max(MAX_BULK_STOCK_LINES, `At most ${MAX_BULK_STOCK_LINES} updates per request`),
+  }),
+};
+
+export const updateVariantSchema = {
+  params: variantIdParams,
+  body: z
+    .object({
+      size: newVariant.shape.size.optional(),
+      price: newVariant.shape.price.optional(),
+      // null clears the value
+      reorderPoint: z.number().int().min(0).nullable().optional(),
+      reorderQuantity: z.number().int().min(0).nullable().optional(),
+    })
+    .refine(
+      (body) => Object.values(body).some((value) => value !== undefined),
+      "Nothing to update"
+    ),
+};
+
+export const bulkPriceChangeSchema = {
+  params: productIdParams,
+  body: z
+    .object({
+      // "amount" adds value to the price, "percent" moves it by value %
+      type: z.enum(["amount", "percent"]),
+      value: z
+        .number()
+        .refine((value) => value !== 0, "value must be non-zero"),
+      variantIds: z.array(objectId).min(1).optional(), // default: all of the product
+    })
+    .refine(
+      (body) => body.type !== "percent" || body.value > -100,
+      "A percentage decrease must be less than 100"
+    ),
+};
+
+export const updateReorderSettingsSchema = {
+  params: variantIdParams,
+  body: z
+    .object({
+      // null clears the value
+      reorderPoint: z.number().int().min(0).nullable().optional(),
+      reorderQuantity: z.number().int().min(0).nullable().optional(),
+    })
+    .refine(
+      (body) => Object.values(body).some((value) => value !== undefined),
+      "Nothing to update"
+    ),
+};
+
+export const updatePriceTiersSchema = {
+  params: variantIdParams,
+  body: z.object({
+    // empty array removes all tiers
+    tiers: z
+      .array(
+        z
+          .object({
+            minQuantity: z.number().int().min(1, "minQuantity must be >= 1"),
+            maxQuantity: z.number().int().min(1).optional(),
+            unitPrice: z.number().positive("unitPrice must be greater than 0"),
+          })
+          .refine(
+            (tier) =>
+              tier.maxQuantity == null || tier.maxQuantity >= tier.minQuantity,
+            "maxQuantity must be >= minQuantity"
+          )
+      )
+      .superRefine((tiers, ctx) => {
+        tiers.forEach((tier, i) => {
+          const next = tiers[i + 1];
+          if (!next) return;
+          if (tier.maxQuantity == null) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [i, "maxQuantity"],
+              message: "Only the last tier can be open-ended",
+            });
+          } else if (next.minQuantity <= tier.maxQuantity) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [i + 1, "minQuantity"],
+              message: "Tiers must be ascending and must not overlap",
+            });
+          }
+        });
+      }),
+  }),
+};
+
+export const quoteSchema = {
+  body: z.object({
+    lines: z
+      .array(
+        z.object({
+          variantId: objectId,
+          quantity: z.number().int().min(1, "quantity must be >= 1"),
+        })
+      )
+      .min(1, "Lines array is required")
+      .refine(
+        (lines) =>
+          new Set(lines.map((l) => l.variantId)).size === lines.length,
+        "Each variant can appear only once"
+      ),
+  }),
+};
+
+export const updateDiscountSchema = {
+  params: variantIdParams,
+  body: z.object({ discountPercent }),
+};
+
+export const updateDiscountByProductIdSchema = {
+  params: productIdParams,
+  body: z.object({ discountPercent }),
+};
+
+export const removeDiscountFromProductServiceSchema = {
+  body: z.object({ productIds }),
+};
+
+export const removeDiscountByVariantIdSchema = { params: variantIdParams };
+
+export const removeDiscountByProductIdSchema = { params: productIdParams };
+
+export const updateVariantStatusSchema = {
+  params: variantIdParams,
+  // isActive is the older form: true = active, false = inactive
+  body: z
+    .object({
+      isActive: z.boolean().optional(),
+      status: settableStatus.optional(),
+    })
+    .refine(
+      (body) => (body.isActive === undefined) !== (body.status === undefined),
+      "Give either status or isActive"
+    ),
+};
+
+export const archiveVariantSchema = { params: variantIdParams };
+
+export const restoreVariantSchema = {
+  params: variantIdParams,
+  body: z.object({ status: settableStatus.default("inactive") }),
+};
+
+export const deleteVariantSchema = { params: variantIdParams };
+
+export const archiveVariantsByProductSchema = { params: productIdParams };
+
+// bulk discount flow (product-service)
+export const prepareBulkDiscountSchema = {
+  body: z.object({
+    productIds,
+    discountPercent,
+    initiatedBy: objectId.nullable().optional(),
+  }),
+};
+
+export const bulkDiscountOperationSchema = {
+  body: z.object({ operationId: z.string().min(1, "operationId required") }),
+};
+
+// CSV export / import
+export const exportVariantsSchema = {
+  query: z.object(variantFilters),
+};
+
+export const importVariantsSchema = {
+  query: z.object({ mode: z.enum(["dry-run", "commit"]).default("dry-run") }),
+  body: z
+    .string({
+      required_error: "CSV body is required (Content-Type: text/csv)",
+      invalid_type_error: "CSV body is required (Content-Type: text/csv)",
+    })
+    .min(1, "CSV body is required (Content-Type: text/csv)"),
+};
+
+// cells arrive as strings, an empty cell means "leave as is"
+const csvCell = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) =>
+      typeof value === "string" ? value.trim() || undefined : value,
+    schema
+  );
+
+export const importVariantRowSchema = z
+  .object({
+    sku: csvCell(z.string().optional()),
+    productId: csvCell(objectId.optional()),
+    size: csvCell(z.string().optional()),
+    price: csvCell(
+      z.coerce.number().positive("Price must be greater than 0").optional()
+    ),
+    stock: csvCell(
+      z.coerce.number().int().min(0, "Stock must be 0 or more").optional()
+    ),
+    discountPercent: csvCell(
+      z.coerce
+        .number()
+        .min(0, "Discount percent must be between 0 and 100")
+        .max(100, "Discount percent must be between 0 and 100")
+        .optional()
+    ),
+    isActive: csvCell(booleanString.optional()),
+    reorderPoint: csvCell(z.coerce.number().int().min(0).optional()),
+    reorderQuantity: csvCell(z.coerce.number().int().min(0).optional()),
+  })
+  .refine(
+    (row) => row.sku || (row.productId && row.size),
+    "Each row needs a sku or a productId + size"
+  );
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { WEBHOOK_EVENT_TYPES } from "../schema/webhook.schema";
+import { booleanString, objectId, pagination } from "./common.validation";
+
+const subscriptionIdParams = z.object({ subscriptionId: objectId });
+
+// plain http is allowed so tests and local setups can use a stub receiver
+const url = z
+  .string()
+  .trim()
+  .url("URL is invalid")
+  .refine((value) => /^https?:\/\//i.test(value), "URL must be http(s)");
+
+const events = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES))
+  .min(1, "At least one event type is required")
+  .transform((values) => [...new Set(values)]);
+
+const secret = z.string().min(16, "Secret must be at least 16 characters");
+
+export const createWebhookSchema = {
+  body: z.object({
+    url,
+    events,
+    secret: secret.optional(), // generated when omitted
+    description: z.string().trim().optional(),
+  }),
+};
+
+export const getWebhooksSchema = {
+  query: z.object({
+    isActive: booleanString.optional(),
+    event: z.enum(WEBHOOK_EVENT_TYPES).optional(),
+  }),
+};
+
+export const webhookByIdSchema = { params: subscriptionIdParams };
+
+export const updateWebhookSchema = {
+  params: subscriptionIdParams,
+  body: z.object({
+    url: url.optional(),
+    events: events.optional(),
+    description: z.string().trim().nullable().optional(), // null clears it
+    isActive: z.boolean().optional(),
+  }),
+};
+
+export const rotateWebhookSecretSchema = {
+  params: subscriptionIdParams,
+  body: z.object({ secret: secret.optional() }),
+};
+
+export const getWebhookDeliveriesSchema = {
+  params: subscriptionIdParams,
+  query: z.object({
+    ...pagination,
+    limit: pagination.limit.default(20),
+    status: z.enum(["pending", "succeeded", "failed"]).optional(),
+    event: z.enum(WEBHOOK_EVENT_TYPES).optional(),
+  }),
+};
+
+export const webhookDeliveryByIdSchema = {
+  params: z.object({ deliveryId: objectId }),
+};